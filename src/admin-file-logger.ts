@@ -8,8 +8,14 @@
 
 
 
+import crypto from 'node:crypto';
+
 import { getLoggingConfig } from './config.js';
-import type { AdminUser, AdminLogOptions } from './types.js';
+import { mergeLogContext } from './log-context.js';
+import { redact, redactString } from './redaction.js';
+import { toSerializable } from './safe-serializer.js';
+import { dispatchAudit } from './transports.js';
+import type { AdminUser, AdminLogOptions, AdminActivityLog } from './types.js';
 
 
 
@@ -27,19 +33,33 @@ export async function logAdminActivity(
 ): Promise<void> {
 	try {
 		const config = getLoggingConfig();
+		const log = redact(toSerializable<AdminActivityLog>({
+			id: crypto.randomUUID(),
+			admin_user_id: user.id,
+			admin_email: user.email,
+			action: options.action,
+			resource_type: options.resourceType ?? null,
+			resource_id: options.resourceId ?? null,
+			ip_address: ipAddress,
+			user_agent: userAgent,
+			details: mergeLogContext(options.details ?? null),
+			created_at: new Date().toISOString(),
+		}));
+		await dispatchAudit(log);
+
 		if (config.auditLog) {
 			await config.auditLog(options.action, user.id, ipAddress, {
-				adminEmail: user.email,
+				adminEmail: log.admin_email,
 				resourceType: options.resourceType,
 				resourceId: options.resourceId,
-				userAgent,
-				...options.details,
+				userAgent: log.user_agent,
+				...log.details,
 			});
 		} else {
 			
 			console.log(
-				`[AUDIT] ${options.action} by ${user.email} (${user.id}) from ${ipAddress}`,
-				options,
+				`[AUDIT] ${options.action} by ${log.admin_email} (${user.id}) from ${ipAddress}`,
+				{ ...options, details: log.details ?? undefined },
 			);
 		}
 	} catch (error) {
@@ -250,22 +270,37 @@ export const adminFileLogger = {
 	}) => {
 		try {
 			const config = getLoggingConfig();
+			const log = redact(toSerializable<AdminActivityLog>({
+				id: crypto.randomUUID(),
+				admin_user_id: options.adminId,
+				admin_email: '',
+				action: options.actionType,
+				resource_type: options.targetType ?? null,
+				resource_id: options.targetId ?? null,
+				ip_address: 'system',
+				user_agent: null,
+				details: mergeLogContext(options.metadata ?? null),
+				created_at: new Date().toISOString(),
+			}));
+			const description = redactString(options.actionDescription);
+			await dispatchAudit(log, description);
+
 			if (config.auditLog) {
 				await config.auditLog(
-					options.actionDescription,
+					description,
 					options.adminId,
 					'system', 
 					{
 						actionType: options.actionType,
 						targetType: options.targetType,
 						targetId: options.targetId,
-						...options.metadata,
+						...log.details,
 					},
 				);
 			} else {
 				console.log(
-					`[AUDIT] ${options.actionDescription} by ${options.adminId}`,
-					options,
+					`[AUDIT] ${description} by ${options.adminId}`,
+					{ ...options, actionDescription: description, metadata: log.details ?? undefined },
 				);
 			}
 		} catch (error) {
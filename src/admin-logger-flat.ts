@@ -18,6 +18,10 @@ import path from 'node:path';
 import crypto from 'node:crypto';
 
 import { getLoggingConfig } from './config.js';
+import { mergeLogContext } from './log-context.js';
+import { redact } from './redaction.js';
+import { toSerializable } from './safe-serializer.js';
+import { dispatchAudit } from './transports.js';
 import type { AdminUser, AdminLogOptions, AdminActivityLog } from './types.js';
 
 
@@ -82,7 +86,11 @@ export async function readLogs(): Promise<AdminActivityLog[]> {
 export async function writeLogs(logs: AdminActivityLog[]): Promise<void> {
 	await ensureLogsDir();
 	
-	await fs.writeFile(getActivityLogFile(), JSON.stringify({ logs }, null, 2), 'utf8');
+	await fs.writeFile(
+		getActivityLogFile(),
+		JSON.stringify({ logs: logs.map((log) => toSerializable(log)) }, null, 2),
+		'utf8',
+	);
 }
 
 
@@ -102,7 +110,7 @@ export async function logAdminActivity(
 	try {
 		const logs = await readLogs();
 
-		const newLog: AdminActivityLog = {
+		const newLog = redact(toSerializable<AdminActivityLog>({
 			id: crypto.randomUUID(),
 			admin_user_id: user.id,
 			admin_email: user.email,
@@ -111,9 +119,9 @@ export async function logAdminActivity(
 			resource_id: options.resourceId || null,
 			ip_address: ipAddress,
 			user_agent: userAgent,
-			details: options.details || null,
+			details: mergeLogContext(options.details || null),
 			created_at: new Date().toISOString(),
-		};
+		}));
 
 		logs.push(newLog);
 
@@ -123,6 +131,7 @@ export async function logAdminActivity(
 		}
 
 		await writeLogs(logs);
+		await dispatchAudit(newLog);
 	} catch (error) {
 		console.error('Failed to log admin activity:', error);
 	}
@@ -149,7 +158,7 @@ export async function logAdminAction(
 	try {
 		const logs = await readLogs();
 
-		const newLog: AdminActivityLog = {
+		const newLog = redact(toSerializable<AdminActivityLog>({
 			id: crypto.randomUUID(),
 			admin_user_id: userId,
 			admin_email: '', 
@@ -158,9 +167,9 @@ export async function logAdminAction(
 			resource_id: targetId,
 			ip_address: '127.0.0.1', 
 			user_agent: request.headers.get('user-agent') || null,
-			details: (metadata as Record<string, unknown> | undefined) || null,
+			details: mergeLogContext((metadata as Record<string, unknown> | undefined) || null),
 			created_at: new Date().toISOString(),
-		};
+		}));
 
 		logs.push(newLog);
 
@@ -170,6 +179,7 @@ export async function logAdminAction(
 		}
 
 		await writeLogs(logs);
+		await dispatchAudit(newLog);
 	} catch (error) {
 		console.error('Failed to log admin action:', error);
 	}
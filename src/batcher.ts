@@ -0,0 +1,133 @@
+
+
+
+
+
+
+
+
+
+
+
+export interface BatcherOptions<T> {
+	batchSize: number;
+	flushIntervalMs: number;
+
+	maxBatchBytes?: number;
+
+	maxQueueSize?: number;
+
+	sizeOf?: (item: T) => number;
+	send: (items: T[]) => Promise<void>;
+	onError: (err: unknown) => void;
+}
+
+
+
+
+export interface Batcher<T> {
+	add: (item: T) => void;
+	flush: () => Promise<void>;
+	close: () => Promise<void>;
+	size: () => number;
+	dropped: () => number;
+}
+
+
+
+
+
+
+
+
+
+export function createBatcher<T>(options: BatcherOptions<T>): Batcher<T> {
+	let queue: T[] = [];
+	let queueBytes = 0;
+	let timer: ReturnType<typeof setTimeout> | null = null;
+	let chain: Promise<void> = Promise.resolve();
+	let pending: Promise<void> | null = null;
+	let dropped = 0;
+	let unreported = 0;
+
+	const clearTimer = (): void => {
+		if (timer) {
+			clearTimeout(timer);
+			timer = null;
+		}
+	};
+
+	const sizeOf = (item: T): number => options.sizeOf?.(item) ?? 0;
+
+	const takeBatch = (): T[] => {
+		let count = 0;
+		let bytes = 0;
+		while (count < queue.length && count < options.batchSize) {
+			const size = sizeOf(queue[count]!);
+			if (count > 0 && options.maxBatchBytes !== undefined && bytes + size > options.maxBatchBytes) break;
+			bytes += size;
+			count++;
+		}
+		const items = queue.slice(0, count);
+		queue = queue.slice(count);
+		queueBytes -= bytes;
+		return items;
+	};
+
+	const flush = (): Promise<void> => {
+		clearTimer();
+		if (pending) return pending;
+		const run = chain.then(async () => {
+			pending = null;
+			if (unreported > 0) {
+				options.onError(new Error(`Dropped ${unreported} log records because the queue was full`));
+				unreported = 0;
+			}
+			while (queue.length > 0) {
+				const items = takeBatch();
+				try {
+					await options.send(items);
+				} catch (err) {
+					options.onError(err);
+				}
+			}
+		});
+		pending = run;
+		chain = run;
+		return run;
+	};
+
+	return {
+		add: (item) => {
+			if (options.maxQueueSize !== undefined && queue.length >= options.maxQueueSize) {
+				queueBytes -= sizeOf(queue.shift()!);
+				dropped++;
+				unreported++;
+			}
+			queue.push(item);
+			queueBytes += sizeOf(item);
+			const bytesReached = options.maxBatchBytes !== undefined && queueBytes >= options.maxBatchBytes;
+			if (queue.length >= options.batchSize || bytesReached) {
+				flush();
+			} else if (!timer) {
+				timer = setTimeout(() => {
+					timer = null;
+					flush();
+				}, options.flushIntervalMs);
+			}
+		},
+		flush,
+		close: () => flush(),
+		size: () => queue.length,
+		dropped: () => dropped,
+	};
+}
+
+
+
+
+
+export function getRetryDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+	const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+	return exponential / 2 + Math.random() * (exponential / 2);
+}
@@ -21,7 +21,15 @@
 
 
 
-import type { LogEntry } from './types.js';
+import type {
+	LogEntry,
+	LogLevel,
+	LogRecord,
+	LogSource,
+	LokiDroppedBatch,
+	LokiLogEntry,
+	LokiOverflowPolicy,
+} from './types.js';
 
 
 
@@ -43,6 +51,24 @@ export interface WriteLogFn {
 
 
 
+export interface Transport {
+	
+	name: string;
+	
+	level?: LogLevel;
+	
+	sources?: LogSource[];
+	
+	write: (record: LogRecord) => void | Promise<void>;
+	
+	flush?: () => Promise<void>;
+	
+	close?: (deadline?: number) => Promise<void>;
+}
+
+
+
+
 export interface AuditLogFn {
 	(action: string, userId: string, ipAddress: string, metadata?: Record<string, unknown>): Promise<void>;
 }
@@ -50,6 +76,160 @@ export interface AuditLogFn {
 
 
 
+export type LokiEncoding = 'json' | 'protobuf';
+
+
+
+
+export interface LokiHeadersFn {
+	(): Record<string, string> | Promise<Record<string, string>>;
+}
+
+
+
+
+export type LokiAuth =
+	| { type: 'basic'; username: string; password: string }
+	| { type: 'bearer'; token: string }
+	| { type: 'headers'; headers: LokiHeadersFn };
+
+
+
+
+export interface LokiTenantFn {
+	(entry: LokiLogEntry): string | undefined;
+}
+
+
+
+
+export interface LokiErrorFn {
+	(batch: LokiDroppedBatch): void;
+}
+
+
+
+
+export interface LokiRetryConfig {
+	
+	maxAttempts?: number;
+	
+	baseDelayMs?: number;
+	
+	maxDelayMs?: number;
+	
+	requestTimeoutMs?: number;
+}
+
+
+
+
+export interface LokiBufferConfig {
+	
+	maxEntries?: number;
+	
+	maxBytes?: number;
+	
+	overflow?: LokiOverflowPolicy;
+	
+	batchSize?: number;
+	
+	maxRequestBytes?: number;
+}
+
+
+
+
+export interface LokiSpoolConfig {
+	
+	enabled?: boolean;
+	
+	dir?: string;
+	
+	maxBytes?: number;
+	
+	segmentBytes?: number;
+}
+
+
+
+
+export interface ShutdownOptions {
+	
+	timeoutMs?: number;
+}
+
+
+
+
+export interface ShutdownHandlerOptions extends ShutdownOptions {
+	
+	signals?: NodeJS.Signals[];
+	
+	exitOnSignal?: boolean;
+}
+
+
+
+
+export type RedactionMode = 'remove' | 'mask' | 'hash' | 'partial';
+
+
+
+
+export type BuiltinRedactionPattern = 'jwt' | 'bearer' | 'creditCard' | 'email';
+
+
+
+
+export interface RedactionPathRule {
+	
+	path: string;
+	
+	mode?: RedactionMode;
+}
+
+
+
+
+export interface RedactionPatternRule {
+	
+	pattern: RegExp;
+	
+	mode?: RedactionMode;
+}
+
+
+
+
+export interface RedactionConfig {
+	
+	paths?: Array<string | RedactionPathRule>;
+	
+	patterns?: Array<BuiltinRedactionPattern | RegExp | RedactionPatternRule>;
+	
+	mode?: RedactionMode;
+	
+	censor?: string;
+	
+	hashSalt?: string;
+}
+
+
+
+
+export interface SerializerConfig {
+	
+	maxDepth?: number;
+	
+	maxKeys?: number;
+	
+	maxStringLength?: number;
+}
+
+
+
+
 export interface AuditLogReader {
 	readLogs: (type: string, date: string, filter?: { userId?: string }) => Promise<LogEntry[]>;
 	getAvailableDates: (type: string) => Promise<string[]>;
@@ -66,10 +246,52 @@ export interface LoggingConfig {
 	
 	auditLogReader?: AuditLogReader;
 	
+	transports?: Transport[];
+	
+	serviceName?: string;
+	
+	otelLogs?: boolean;
+	
+	redact?: RedactionConfig;
+	
+	errorStackDepth?: number;
+	
+	serializer?: SerializerConfig;
+	
 	lokiUrl?: string;
 	
 	lokiEnabled?: boolean;
 	
+	lokiLabels?: Record<string, string>;
+	
+	lokiStreamLabelKeys?: string[];
+	
+	lokiRetry?: LokiRetryConfig;
+	
+	onLokiError?: LokiErrorFn;
+	
+	lokiBuffer?: LokiBufferConfig;
+	
+	lokiSpool?: LokiSpoolConfig;
+	
+	lokiEncoding?: LokiEncoding;
+	
+	lokiAuth?: LokiAuth;
+	
+	lokiTenantId?: string | LokiTenantFn;
+	
+	lokiCompression?: 'gzip' | 'none';
+	
+	lokiStructuredMetadata?: boolean;
+	
+	consoleLevel?: LogLevel;
+	
+	lokiLevel?: LogLevel;
+	
+	lokiSampleRates?: Partial<Record<LogLevel, number>>;
+	
+	componentLevels?: string;
+	
 	nodeEnv?: string;
 	
 	logsDir?: string;
@@ -0,0 +1,144 @@
+
+
+
+
+
+
+
+
+
+
+
+import { getLoggingConfig } from './config.js';
+import type { SerializedError } from './types.js';
+
+
+
+
+export interface ErrorSerializerOptions {
+
+	stackDepth?: number;
+}
+
+
+const MAX_CAUSE_DEPTH = 10;
+
+
+const CIRCULAR = '[Circular]';
+
+
+
+
+function truncateStack(stack: string, depth: number | undefined): string {
+	if (depth === undefined) return stack;
+	const lines = stack.split('\n');
+	const firstFrame = lines.findIndex((line) => /^\s+at /.test(line));
+	if (firstFrame === -1) return stack;
+	return lines.slice(0, firstFrame + Math.max(0, depth)).join('\n');
+}
+
+
+
+
+function isPlainContainer(value: unknown): value is Record<string, unknown> | unknown[] {
+	if (Array.isArray(value)) return true;
+	if (value === null || typeof value !== 'object') return false;
+	const proto = Object.getPrototypeOf(value);
+	return proto === Object.prototype || proto === null;
+}
+
+
+
+
+function serialize(
+	value: unknown,
+	options: ErrorSerializerOptions,
+	ancestors: Set<object>,
+	causeDepth: number,
+): unknown {
+	if (value instanceof Error) {
+		if (ancestors.has(value)) return CIRCULAR;
+		ancestors.add(value);
+		try {
+			return serializeInto(value, options, ancestors, causeDepth);
+		} finally {
+			ancestors.delete(value);
+		}
+	}
+
+	if (!isPlainContainer(value)) return value;
+	if (ancestors.has(value)) return CIRCULAR;
+	ancestors.add(value);
+	try {
+		if (Array.isArray(value)) {
+			return value.map((item) => serialize(item, options, ancestors, causeDepth));
+		}
+		const copy: Record<string, unknown> = {};
+		for (const [key, item] of Object.entries(value)) {
+			copy[key] = serialize(item, options, ancestors, causeDepth);
+		}
+		return copy;
+	} finally {
+		ancestors.delete(value);
+	}
+}
+
+
+
+
+function serializeInto(
+	error: Error,
+	options: ErrorSerializerOptions,
+	ancestors: Set<object>,
+	causeDepth: number,
+): SerializedError {
+	const result: SerializedError = {
+		name: error.name,
+		message: error.message,
+	};
+	if (typeof error.stack === 'string') result.stack = truncateStack(error.stack, options.stackDepth);
+
+	const { code } = error as { code?: unknown };
+	if (code !== undefined) result.code = code;
+
+	if (error.cause !== undefined && causeDepth < MAX_CAUSE_DEPTH) {
+		result.cause = serialize(error.cause, options, ancestors, causeDepth + 1);
+	}
+
+	if (error instanceof AggregateError && Array.isArray(error.errors)) {
+		result.errors = error.errors.map((item: unknown) => serialize(item, options, ancestors, causeDepth + 1));
+	}
+
+	for (const [key, item] of Object.entries(error)) {
+		if (key in result) continue;
+		result[key] = serialize(item, options, ancestors, causeDepth);
+	}
+	return result;
+}
+
+
+
+
+
+
+
+
+export function serializeError(
+	error: Error,
+	options: ErrorSerializerOptions = { stackDepth: getLoggingConfig().errorStackDepth },
+): SerializedError {
+	return serializeInto(error, options, new Set([error]), 0);
+}
+
+
+
+
+
+
+
+export function serializeErrors<T>(
+	value: T,
+	options: ErrorSerializerOptions = { stackDepth: getLoggingConfig().errorStackDepth },
+): T {
+	return serialize(value, options, new Set(), 0) as T;
+}
@@ -0,0 +1,316 @@
+
+
+
+
+
+
+
+import { inspect } from 'node:util';
+import { getLoggingConfig } from './config.js';
+import { safeStringify } from './safe-serializer.js';
+import { toLogEntry } from './transports.js';
+import type { LogRecord } from './types.js';
+
+
+
+
+export type LineFormat = 'json' | 'logfmt' | 'ecs';
+
+
+
+
+export interface PrettyFormatOptions {
+
+	colors?: boolean;
+
+	previousTimestamp?: number;
+}
+
+
+const ANSI = {
+	reset: '\x1b[0m',
+	bold: '\x1b[1m',
+	dim: '\x1b[2m',
+	red: '\x1b[31m',
+	green: '\x1b[32m',
+	yellow: '\x1b[33m',
+	magenta: '\x1b[35m',
+	cyan: '\x1b[36m',
+	gray: '\x1b[90m',
+};
+
+
+const BADGE_COLORS: Record<string, string> = {
+	debug: ANSI.gray,
+	info: ANSI.green,
+	warn: ANSI.yellow,
+	error: ANSI.red,
+	audit: ANSI.magenta,
+};
+
+
+const BADGE_WIDTH = 5;
+
+
+const TIME_WIDTH = 7;
+
+
+const SHORT_TRACE_LENGTH = 8;
+
+
+const INDENT = '    ';
+
+
+const MAX_PRETTY_CAUSES = 5;
+
+
+const ECS_VERSION = '8.11.0';
+
+
+const ECS_CONTEXT_KEYS = ['component', 'action', 'userId', 'requestId', 'trace_id', 'span_id'];
+
+
+
+
+export function supportsColor(stream: { isTTY?: boolean } | undefined = process.stdout): boolean {
+	const noColor = process.env.NO_COLOR;
+	if (noColor !== undefined && noColor !== '') return false;
+	return Boolean(stream?.isTTY);
+}
+
+
+
+
+export function formatRelativeTime(ms: number): string {
+	const elapsed = Math.max(0, ms);
+	if (elapsed < 1000) return `+${Math.round(elapsed)}ms`;
+	if (elapsed < 60000) return `+${(elapsed / 1000).toFixed(1)}s`;
+	return `+${(elapsed / 60000).toFixed(1)}m`;
+}
+
+
+
+
+export function shortTraceId(traceId: string): string {
+	return traceId.slice(0, SHORT_TRACE_LENGTH);
+}
+
+
+
+
+function isErrorLike(
+	value: unknown,
+): value is { name?: unknown; message?: unknown; stack: string; cause?: unknown } {
+	if (value instanceof Error) return typeof value.stack === 'string';
+	return (
+		typeof value === 'object' &&
+		value !== null &&
+		typeof (value as { stack?: unknown }).stack === 'string'
+	);
+}
+
+
+
+
+
+
+export function formatJsonLine(record: LogRecord): string {
+	return safeStringify({
+		...toLogEntry(record),
+		timestamp: new Date(record.timestamp).toISOString(),
+		source: record.source,
+		...(record.audit && { audit: record.audit }),
+	});
+}
+
+
+
+
+
+function formatLogfmtValue(value: unknown): string {
+	const text = typeof value === 'string' ? value : safeStringify(value);
+	if (text === '') return '""';
+	return /[\s"=\\]|[\u0000-\u001f]/.test(text) ? JSON.stringify(text) : text;
+}
+
+
+
+
+function appendLogfmtPairs(pairs: string[], prefix: string, value: unknown): void {
+	if (value === undefined) return;
+	if (value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)) {
+		for (const [key, nested] of Object.entries(value)) {
+			appendLogfmtPairs(pairs, `${prefix}.${key}`, nested);
+		}
+		return;
+	}
+	pairs.push(`${prefix}=${formatLogfmtValue(value)}`);
+}
+
+
+
+
+
+
+
+export function formatLogfmtLine(record: LogRecord): string {
+	const { level, message, timestamp: _timestamp, ...fields } = toLogEntry(record);
+	const pairs: string[] = [];
+	appendLogfmtPairs(pairs, 'time', new Date(record.timestamp).toISOString());
+	appendLogfmtPairs(pairs, 'level', level);
+	appendLogfmtPairs(pairs, 'msg', message);
+	for (const [key, value] of Object.entries(fields)) {
+		appendLogfmtPairs(pairs, key, value);
+	}
+	appendLogfmtPairs(pairs, 'source', record.source);
+	if (record.audit) appendLogfmtPairs(pairs, 'audit', record.audit);
+	return pairs.join(' ');
+}
+
+
+
+
+function toEcsError(value: unknown): Record<string, unknown> | undefined {
+	if (value === null || typeof value !== 'object') return undefined;
+	const error = value as { name?: unknown; message?: unknown; stack?: unknown };
+	if (typeof error.message !== 'string') return undefined;
+	return {
+		'error.type': typeof error.name === 'string' ? error.name : 'Error',
+		'error.message': error.message,
+		...(typeof error.stack === 'string' && { 'error.stack_trace': error.stack }),
+	};
+}
+
+
+
+
+
+
+
+
+
+
+export function toEcsDocument(record: LogRecord): Record<string, unknown> {
+	const { context, audit } = record;
+	const serviceName = getLoggingConfig().serviceName;
+	const errorKey = context.err !== undefined ? 'err' : 'error';
+	const error = toEcsError(context[errorKey]);
+
+	const document: Record<string, unknown> = {
+		'@timestamp': new Date(record.timestamp).toISOString(),
+		'log.level': record.level,
+		message: record.message,
+		'ecs.version': ECS_VERSION,
+		...(serviceName && { 'service.name': serviceName }),
+		...(context.component !== undefined && { 'log.logger': context.component }),
+		'event.dataset': record.source === 'audit' ? 'tinyland.audit' : 'tinyland.app',
+		...(record.traceId !== undefined && { 'trace.id': record.traceId }),
+		...(record.spanId !== undefined && { 'span.id': record.spanId }),
+		...(context.action !== undefined && { 'event.action': context.action }),
+		...(context.userId !== undefined && { 'user.id': context.userId }),
+		...(context.requestId !== undefined && { 'http.request.id': context.requestId }),
+		...error,
+		...(audit && {
+			'event.kind': 'event',
+			'event.id': audit.id,
+			'event.action': audit.action,
+			'user.id': audit.admin_user_id,
+			'user.email': audit.admin_email,
+			'source.ip': audit.ip_address,
+			...(audit.user_agent && { 'user_agent.original': audit.user_agent }),
+			...(audit.resource_type && { 'labels.resource_type': audit.resource_type }),
+			...(audit.resource_id && { 'labels.resource_id': audit.resource_id }),
+		}),
+	};
+
+	for (const [key, value] of Object.entries({ ...context, ...record.metadata })) {
+		if (ECS_CONTEXT_KEYS.includes(key) || (error && key === errorKey) || key in document) continue;
+		document[key] = value;
+	}
+	return document;
+}
+
+
+
+
+export function formatEcsLine(record: LogRecord): string {
+	return safeStringify(toEcsDocument(record));
+}
+
+
+
+
+export function formatLine(record: LogRecord, format: LineFormat = 'json'): string {
+	switch (format) {
+		case 'logfmt':
+			return formatLogfmtLine(record);
+		case 'ecs':
+			return formatEcsLine(record);
+		default:
+			return formatJsonLine(record);
+	}
+}
+
+
+
+
+
+
+
+
+export function formatPretty(record: LogRecord, options: PrettyFormatOptions = {}): string {
+	const paint = (style: string, text: string): string =>
+		options.colors ? `${style}${text}${ANSI.reset}` : text;
+
+	const kind = record.source === 'audit' ? 'audit' : record.level.toLowerCase();
+	const badge = paint(
+		`${ANSI.bold}${BADGE_COLORS[kind] ?? ''}`,
+		kind.toUpperCase().padEnd(BADGE_WIDTH),
+	);
+	const elapsed =
+		options.previousTimestamp === undefined ? 0 : record.timestamp - options.previousTimestamp;
+	const time = paint(ANSI.dim, formatRelativeTime(elapsed).padStart(TIME_WIDTH));
+
+	const { component, ...rest } = record.context;
+	const fields: Record<string, unknown> = {
+		...(record.labels ? { ...record.labels, ...rest } : rest),
+		...record.metadata,
+	};
+	delete fields.trace_id;
+	delete fields.span_id;
+
+	let header = `${time} ${badge}`;
+	if (component) header += ` ${paint(ANSI.cyan, `[${String(component)}]`)}`;
+	header += ` ${record.message}`;
+	if (record.traceId) header += ` ${paint(ANSI.dim, `trace=${shortTraceId(record.traceId)}`)}`;
+
+	const entries = Object.entries(fields).filter(([, value]) => value !== undefined);
+	if (entries.length === 0) return header;
+
+	const keyWidth = Math.max(...entries.map(([key]) => key.length));
+	const lines = [header];
+	for (const [key, value] of entries) {
+		const label = paint(ANSI.dim, `${key.padEnd(keyWidth)}:`);
+		if (isErrorLike(value)) {
+			const padding = `${INDENT}${' '.repeat(keyWidth + 2)}`;
+			let error: unknown = value;
+			let prefix = `${INDENT}${label} `;
+			for (let depth = 0; isErrorLike(error) && depth < MAX_PRETTY_CAUSES; depth++) {
+				const [first, ...frames] = error.stack.split('\n');
+				lines.push(`${prefix}${paint(ANSI.red, first ?? String(error.message))}`);
+				for (const frame of frames) {
+					lines.push(`${padding}${paint(ANSI.gray, frame.trim())}`);
+				}
+				error = error.cause;
+				prefix = `${padding}${paint(ANSI.dim, 'caused by:')} `;
+			}
+		} else {
+			const text =
+				typeof value === 'string'
+					? value
+					: inspect(value, { colors: options.colors, depth: 4, breakLength: Infinity });
+			lines.push(`${INDENT}${label} ${text}`);
+		}
+	}
+	return lines.join('\n');
+}
@@ -20,18 +20,55 @@ export type {
 	WriteLogFn,
 	AuditLogFn,
 	AuditLogReader,
+	Transport,
+	LokiErrorFn,
+	LokiRetryConfig,
+	LokiBufferConfig,
+	LokiSpoolConfig,
+	LokiEncoding,
+	LokiAuth,
+	LokiHeadersFn,
+	LokiTenantFn,
+	ShutdownOptions,
+	ShutdownHandlerOptions,
+	RedactionConfig,
+	SerializerConfig,
+	RedactionMode,
+	RedactionPathRule,
+	RedactionPatternRule,
+	BuiltinRedactionPattern,
 } from './config.js';
 
 
+export { redact, redactString } from './redaction.js';
+
+
+export { serializeError, serializeErrors } from './error-serializer.js';
+export type { ErrorSerializerOptions } from './error-serializer.js';
+
+
+export { toSerializable, safeStringify, truncateString } from './safe-serializer.js';
+
+
+export { runWithLogContext, getLogContext } from './log-context.js';
+
+
 export type {
 	FileLogLevel,
 	LogLevel,
 	LogContext,
+	SerializedError,
 	AdminUser,
 	AdminLogOptions,
 	AdminActivityLog,
 	LogEntry,
 	LokiLogEntry,
+	LogSource,
+	LogRecord,
+	LokiDropReason,
+	LokiOverflowPolicy,
+	LokiDroppedBatch,
+	LokiStats,
 } from './types.js';
 
 
@@ -47,9 +84,65 @@ export {
 	lokiLogger,
 	log as lokiLog,
 	flushLogs,
+	getLokiStats,
+	shutdownLogging,
+	installShutdownHandlers,
+	lokiTransport,
 } from './logger.js';
 
 
+export {
+	consoleTransport,
+	writeLogTransport,
+	flushTransports,
+	closeTransports,
+	toLogEntry,
+} from './transports.js';
+export type { TransportOptions, ConsoleTransportOptions, ConsoleFormat } from './transports.js';
+
+
+export {
+	formatPretty,
+	formatJsonLine,
+	formatLogfmtLine,
+	formatEcsLine,
+	formatLine,
+	toEcsDocument,
+	supportsColor,
+} from './formatters.js';
+export type { PrettyFormatOptions, LineFormat } from './formatters.js';
+
+
+export { otlpTransport, OTLP_SEVERITY_NUMBER } from './transport-otlp.js';
+export type { OtlpTransportOptions } from './transport-otlp.js';
+export {
+	syslogTransport,
+	formatSyslogMessage,
+	SYSLOG_FACILITIES,
+	SYSLOG_SEVERITY,
+} from './transport-syslog.js';
+export type {
+	SyslogTransportOptions,
+	SyslogProtocol,
+	SyslogFraming,
+	SyslogFacility,
+} from './transport-syslog.js';
+export { gelfTransport, toGelfMessage } from './transport-gelf.js';
+export type { GelfTransportOptions, GelfMessage } from './transport-gelf.js';
+export { fileTransport } from './transport-file.js';
+export type { FileTransportOptions } from './transport-file.js';
+export { elasticsearchTransport, formatIndexName } from './transport-elasticsearch.js';
+export { fluentdTransport } from './transport-fluentd.js';
+export type { FluentdTransportOptions } from './transport-fluentd.js';
+export { splunkTransport, toSplunkEvent } from './transport-splunk.js';
+export type { SplunkTransportOptions, SplunkAckConfig, SplunkEvent } from './transport-splunk.js';
+export type {
+	ElasticsearchTransportOptions,
+	ElasticsearchAuth,
+	ElasticsearchRetryConfig,
+} from './transport-elasticsearch.js';
+
+
 export {
 	logAdminActivity as logAdminFileActivity,
 	AdminActions,
@@ -78,6 +171,7 @@ export {
 	_setTraceApi,
 	_getTraceApi,
 } from './logger-structured.js';
+export { _setLogsApi } from './otel-logs.js';
 export {
 	_getBufferLength,
 	_resetBuffer,
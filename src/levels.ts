@@ -0,0 +1,172 @@
+
+
+
+
+
+
+
+
+
+
+
+
+import { getLoggingConfig } from './config.js';
+import type { LogLevel } from './types.js';
+
+
+
+
+export const LOG_LEVEL_PRIORITY: Record<LogLevel, number> = {
+	debug: 10,
+	info: 20,
+	warn: 30,
+	error: 40,
+};
+
+
+
+
+
+export function normalizeLevel(level: string): LogLevel | undefined {
+	const lower = level.toLowerCase();
+	return lower in LOG_LEVEL_PRIORITY ? (lower as LogLevel) : undefined;
+}
+
+
+
+
+
+
+export function isLevelEnabled(level: string, minLevel?: LogLevel): boolean {
+	if (!minLevel) return true;
+	const normalized = normalizeLevel(level);
+	if (!normalized) return true;
+	return LOG_LEVEL_PRIORITY[normalized] >= LOG_LEVEL_PRIORITY[minLevel];
+}
+
+
+
+
+
+
+export function shouldSample(
+	level: string,
+	rates?: Partial<Record<LogLevel, number>>,
+): boolean {
+	const normalized = normalizeLevel(level);
+	const rate = normalized ? rates?.[normalized] : undefined;
+	if (rate === undefined || rate >= 1) return true;
+	if (rate <= 0) return false;
+	return Math.random() < rate;
+}
+
+
+
+
+interface LevelRule {
+	pattern: string;
+	regex: RegExp;
+	specificity: number;
+	level: LogLevel;
+}
+
+
+
+
+interface CompiledLevels {
+	rules: LevelRule[];
+	resolved: Map<string, LogLevel | undefined>;
+}
+
+
+const compiledLevels = new Map<string, CompiledLevels>();
+
+
+const MAX_COMPILED_SPECS = 16;
+
+
+const MAX_RESOLVED_COMPONENTS = 1000;
+
+
+
+
+
+function compileLevelRule(entry: string): LevelRule | undefined {
+	const separator = entry.lastIndexOf('=');
+	const pattern = (separator === -1 ? entry : entry.slice(0, separator)).trim();
+	const level = separator === -1 ? 'debug' : normalizeLevel(entry.slice(separator + 1).trim());
+	if (!pattern || !level) return undefined;
+
+	const source = pattern
+		.split('*')
+		.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+		.join('.*');
+	const hierarchical = pattern.endsWith('*') ? '' : '(?::.*)?';
+	return {
+		pattern,
+		regex: new RegExp(`^${source}${hierarchical}$`),
+		specificity: pattern.replace(/\*/g, '').length,
+		level,
+	};
+}
+
+
+
+
+function compileLevels(spec: string): CompiledLevels {
+	let compiled = compiledLevels.get(spec);
+	if (!compiled) {
+		const rules = spec
+			.split(/[\s,]+/)
+			.map(compileLevelRule)
+			.filter((rule): rule is LevelRule => rule !== undefined);
+		compiled = { rules, resolved: new Map() };
+		if (compiledLevels.size >= MAX_COMPILED_SPECS) {
+			compiledLevels.delete(compiledLevels.keys().next().value!);
+		}
+		compiledLevels.set(spec, compiled);
+	}
+	return compiled;
+}
+
+
+
+
+
+
+
+
+
+export function resolveComponentLevel(
+	component: string | undefined,
+	spec: string | undefined = getLoggingConfig().componentLevels,
+): LogLevel | undefined {
+	if (!spec) return undefined;
+	const compiled = compileLevels(spec);
+	const name = component ?? '';
+	if (compiled.resolved.has(name)) return compiled.resolved.get(name);
+
+	let best: LevelRule | undefined;
+	for (const rule of compiled.rules) {
+		if (!rule.regex.test(name)) continue;
+		const exact = rule.pattern === name;
+		const bestExact = best?.pattern === name;
+		if (!best || (exact && !bestExact) || (exact === bestExact && rule.specificity >= best.specificity)) {
+			best = rule;
+		}
+	}
+	if (compiled.resolved.size >= MAX_RESOLVED_COMPONENTS) {
+		compiled.resolved.delete(compiled.resolved.keys().next().value!);
+	}
+	compiled.resolved.set(name, best?.level);
+	return best?.level;
+}
+
+
+
+
+
+
+export function _getResolvedComponentCount(spec: string): number {
+	return compiledLevels.get(spec)?.resolved.size ?? 0;
+}
@@ -0,0 +1,42 @@
+
+
+
+
+
+
+
+
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { LogContext } from './types.js';
+
+
+const storage = new AsyncLocalStorage<LogContext>();
+
+
+
+
+
+
+
+export function runWithLogContext<T>(context: LogContext, fn: () => T): T {
+	return storage.run({ ...storage.getStore(), ...context }, fn);
+}
+
+
+
+
+
+export function getLogContext(): LogContext {
+	return { ...storage.getStore() };
+}
+
+
+
+
+
+export function mergeLogContext(details: Record<string, unknown> | null): Record<string, unknown> | null {
+	const context = storage.getStore();
+	if (!context || Object.keys(context).length === 0) return details;
+	return { ...context, ...details };
+}
@@ -22,7 +22,14 @@
 
 
 import { getLoggingConfig } from './config.js';
-import type { FileLogLevel, LogContext } from './types.js';
+import type { Transport } from './config.js';
+import { isLevelEnabled, resolveComponentLevel } from './levels.js';
+import { getLogContext } from './log-context.js';
+import { emitOtelLogRecord } from './otel-logs.js';
+import { redact, redactString } from './redaction.js';
+import { toSerializable } from './safe-serializer.js';
+import { consoleTransport, dispatch, resolveTransports, writeLogTransport } from './transports.js';
+import type { FileLogLevel, LogContext, LogRecord } from './types.js';
 
 
 
@@ -43,7 +50,7 @@ try {
 
 
 
-function getTraceContext(): { trace_id?: string; span_id?: string } {
+export function getTraceContext(): { trace_id?: string; span_id?: string } {
 	try {
 		if (!traceApi) {
 			return {};
@@ -69,55 +76,67 @@ function getTraceContext(): { trace_id?: string; span_id?: string } {
 
 
 
+function getDefaultTransports(): Transport[] {
+	const config = getLoggingConfig();
+	const transports: Transport[] = [];
+
+	if (config.writeLog) {
+		transports.push(writeLogTransport());
+	}
+	
+	if (config.nodeEnv === 'development') {
+		transports.push(consoleTransport({ level: config.consoleLevel }));
+	}
+	return transports;
+}
+
+
+
+
+
+
+
+function isLogEnabled(level: FileLogLevel, component: unknown): boolean {
+	const config = getLoggingConfig();
+	if (config.componentLevels) {
+		const name = component ?? getLogContext().component;
+		const minLevel = resolveComponentLevel(typeof name === 'string' ? name : undefined, config.componentLevels);
+		if (minLevel) return isLevelEnabled(level, minLevel);
+	}
+	
+	return !(level === 'debug' && config.nodeEnv === 'production');
+}
+
+
+
+
+
 async function logInternal(
 	level: FileLogLevel,
 	message: string,
 	context: LogContext = {},
 ): Promise<void> {
-	const config = getLoggingConfig();
-
-	
-	if (level === 'debug' && config.nodeEnv === 'production') {
+	if (!isLogEnabled(level, context instanceof Error ? undefined : context.component)) {
 		return;
 	}
 
 	
 	const traceContext = getTraceContext();
 
-	
-	const logEntry: Record<string, unknown> = {
+	const record: LogRecord = {
+		source: 'structured',
 		level,
-		message,
+		message: redactString(message),
 		timestamp: Date.now(),
-		
-		...traceContext,
-		
-		component: context.component,
-		action: context.action,
-		
-		user_id: context.userId,
-		session_id: context.sessionId,
-		request_id: context.requestId,
-		
-		...Object.fromEntries(
-			Object.entries(context).filter(
-				([key]) =>
-					!['component', 'action', 'userId', 'sessionId', 'requestId'].includes(key),
-			),
+		context: redact(
+			toSerializable({ ...getLogContext(), ...(context instanceof Error ? { err: context } : context) }),
 		),
+		traceId: traceContext.trace_id,
+		spanId: traceContext.span_id,
 	};
 
-	
-	if (config.writeLog) {
-		await config.writeLog(logEntry);
-	}
-
-	
-	if (config.nodeEnv === 'development') {
-		const prefix = `[${level.toUpperCase()}]`;
-		const componentTag = context.component ? `[${context.component}]` : '';
-		console.log(`${prefix}${componentTag} ${message}`, context);
-	}
+	emitOtelLogRecord(record);
+	await dispatch(record, resolveTransports(getDefaultTransports));
 }
 
 
@@ -205,29 +224,39 @@ export function createScopedLogger(defaultContext: LogContext) {
 	
 	
 	const handleCall = (
+		level: FileLogLevel,
 		method: (ctx: LogContext, msg: string) => void,
 		firstArg: LogContext | string,
 		secondArg?: LogContext | string,
 	) => {
+		const additionalContext = typeof firstArg === 'string' ? secondArg : firstArg;
+		const context: LogContext =
+			additionalContext instanceof Error
+				? { err: additionalContext }
+				: typeof additionalContext === 'object'
+					? additionalContext
+					: {};
+		if (!isLogEnabled(level, context.component ?? defaultContext.component)) {
+			return;
+		}
+
 		if (typeof firstArg === 'string') {
-			
-			const additionalContext = typeof secondArg === 'object' ? secondArg : {};
-			return method({ ...defaultContext, ...additionalContext }, firstArg);
+			return method({ ...defaultContext, ...context }, firstArg);
 		}
 		
 		const message = typeof secondArg === 'string' ? secondArg : '';
-		return method({ ...defaultContext, ...firstArg }, message);
+		return method({ ...defaultContext, ...context }, message);
 	};
 
 	return {
 		debug: (contextOrMessage: LogContext | string, contextOrMessageSecond?: LogContext | string) =>
-			handleCall((ctx, msg) => structuredLogger.debug(ctx, msg), contextOrMessage, contextOrMessageSecond),
+			handleCall('debug', (ctx, msg) => structuredLogger.debug(ctx, msg), contextOrMessage, contextOrMessageSecond),
 		info: (contextOrMessage: LogContext | string, contextOrMessageSecond?: LogContext | string) =>
-			handleCall((ctx, msg) => structuredLogger.info(ctx, msg), contextOrMessage, contextOrMessageSecond),
+			handleCall('info', (ctx, msg) => structuredLogger.info(ctx, msg), contextOrMessage, contextOrMessageSecond),
 		warn: (contextOrMessage: LogContext | string, contextOrMessageSecond?: LogContext | string) =>
-			handleCall((ctx, msg) => structuredLogger.warn(ctx, msg), contextOrMessage, contextOrMessageSecond),
+			handleCall('warn', (ctx, msg) => structuredLogger.warn(ctx, msg), contextOrMessage, contextOrMessageSecond),
 		error: (contextOrMessage: LogContext | string, contextOrMessageSecond?: LogContext | string) =>
-			handleCall((ctx, msg) => structuredLogger.error(ctx, msg), contextOrMessage, contextOrMessageSecond),
+			handleCall('error', (ctx, msg) => structuredLogger.error(ctx, msg), contextOrMessage, contextOrMessageSecond),
 	};
 }
 
@@ -13,16 +13,91 @@
 
 
 
+import os from 'node:os';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import { gzip } from 'node:zlib';
+
 import { getLoggingConfig } from './config.js';
-import type { LokiLogEntry } from './types.js';
+import { encodeJsonPushRequest, encodeProtobufPushRequest } from './loki-encoding.js';
+import type { LokiStream } from './loki-encoding.js';
+import { createLokiSpool } from './loki-spool.js';
+import { shouldSample } from './levels.js';
+import { getLogContext } from './log-context.js';
+import { getTraceContext } from './logger-structured.js';
+import { redact, redactString } from './redaction.js';
+import { safeStringify, toSerializable } from './safe-serializer.js';
+import { anyAccepts, closeTransports, consoleTransport, dispatch, resolveTransports } from './transports.js';
+import type { TransportOptions } from './transports.js';
+import type { LokiSpool } from './loki-spool.js';
+import type {
+	LokiBufferConfig,
+	LokiRetryConfig,
+	ShutdownHandlerOptions,
+	ShutdownOptions,
+	Transport,
+} from './config.js';
+import type {
+	LogRecord,
+	LokiDropReason,
+	LokiLogEntry,
+	LokiOverflowPolicy,
+	LokiStats,
+} from './types.js';
+
+
+
+
+interface BufferedEntry {
+	entry: LokiLogEntry;
+	attempts: number;
+	bytes: number;
+}
+
+
+
+
+type PushResult =
+	| { ok: true }
+	| { ok: false; retryable: boolean; status?: number; error: unknown; retryAfterMs?: number };
 
 
-let logBuffer: LokiLogEntry[] = [];
+let logBuffer: BufferedEntry[] = [];
 
 
 let flushTimer: ReturnType<typeof setTimeout> | null = null;
 
 
+let flushChain: Promise<void> = Promise.resolve();
+
+
+let consecutiveFailures = 0;
+
+
+let bufferBytes = 0;
+
+
+let earlyFlushQueued = false;
+
+
+const gzipAsync = promisify(gzip);
+
+
+let spoolCache: { key: string; spool: LokiSpool } | null = null;
+
+
+const ENTRY_OVERHEAD_BYTES = 32;
+
+
+const REQUEST_OVERHEAD_BYTES = 1024;
+
+
+const DEFAULT_SHUTDOWN_TIMEOUT_MS = 5000;
+
+
+let stats: LokiStats = { droppedBatches: 0, droppedEntries: 0, failedPushes: 0 };
+
+
 
 
 function getLokiUrl(): string {
@@ -50,54 +125,567 @@ function getNodeEnv(): string {
 
 
 
-export async function flushLogs(): Promise<void> {
-	if (logBuffer.length === 0) return;
+const DEFAULT_STREAM_LABELS: Record<string, string> = {
+	job: 'sveltekit',
+	container: 'stonewall-sveltekit',
+	compose_service: 'sveltekit',
+};
 
-	const logsToSend = [...logBuffer];
-	logBuffer = [];
 
+
+
+function getStaticStreamLabels(): Record<string, string> {
+	return {
+		environment: getNodeEnv(),
+		...(getLoggingConfig().lokiLabels ?? DEFAULT_STREAM_LABELS),
+	};
+}
+
+
+
+
+
+
+function buildStreams(entries: LokiLogEntry[]): LokiStream[] {
+	const staticLabels = getStaticStreamLabels();
+	const promotedKeys = getLoggingConfig().lokiStreamLabelKeys ?? [];
+	const useStructuredMetadata = getLoggingConfig().lokiStructuredMetadata !== false;
+	const streams = new Map<string, LokiStream>();
+
+	for (const entry of entries) {
+		const streamLabels: Record<string, string> = { ...staticLabels };
+		const lineLabels: Record<string, string> = {};
+
+		for (const [key, value] of Object.entries(entry.labels)) {
+			if (promotedKeys.includes(key)) {
+				streamLabels[key] = value;
+			} else {
+				lineLabels[key] = value;
+			}
+		}
+
+		const streamKey = JSON.stringify(
+			Object.keys(streamLabels)
+				.sort()
+				.map((key) => [key, streamLabels[key]]),
+		);
+
+		let stream = streams.get(streamKey);
+		if (!stream) {
+			stream = { stream: streamLabels, values: [] };
+			streams.set(streamKey, stream);
+		}
+
+		const timestamp = (new Date(entry.timestamp).getTime() * 1000000).toString(); 
+		const metadata = entry.metadata ?? {};
+
+		if (useStructuredMetadata && Object.keys(metadata).length > 0) {
+			stream.values.push([
+				timestamp,
+				safeStringify({ level: entry.level, msg: entry.message, ...lineLabels }),
+				metadata,
+			]);
+		} else {
+			stream.values.push([
+				timestamp,
+				safeStringify({ level: entry.level, msg: entry.message, ...lineLabels, ...metadata }),
+			]);
+		}
+	}
+
+	return [...streams.values()];
+}
+
+
+
+
+function getRetryConfig(): Required<LokiRetryConfig> {
+	const retry = getLoggingConfig().lokiRetry ?? {};
+	return {
+		maxAttempts: retry.maxAttempts ?? 5,
+		baseDelayMs: retry.baseDelayMs ?? 500,
+		maxDelayMs: retry.maxDelayMs ?? 30000,
+		requestTimeoutMs: retry.requestTimeoutMs ?? 10000,
+	};
+}
+
+
+
+
+
+function getBackoffDelay(retryAfterMs?: number): number {
+	const { baseDelayMs, maxDelayMs } = getRetryConfig();
+	const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** (consecutiveFailures - 1));
+	const jittered = exponential / 2 + Math.random() * (exponential / 2);
+	return Math.max(jittered, Math.min(retryAfterMs ?? 0, maxDelayMs));
+}
+
+
+
+
+function parseRetryAfter(response: Response): number | undefined {
+	const header = response.headers?.get('retry-after');
+	if (!header) return undefined;
+	const seconds = Number(header);
+	if (Number.isFinite(seconds)) return seconds * 1000;
+	const date = Date.parse(header);
+	return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+
+
+
+async function getAuthHeaders(): Promise<Record<string, string>> {
+	const auth = getLoggingConfig().lokiAuth;
+	switch (auth?.type) {
+		case 'basic':
+			return {
+				Authorization: `Basic ${Buffer.from(`${auth.username}:${auth.password}`).toString('base64')}`,
+			};
+		case 'bearer':
+			return { Authorization: `Bearer ${auth.token}` };
+		case 'headers':
+			return await auth.headers();
+		default:
+			return {};
+	}
+}
+
+
+
+
+async function pushEntries(entries: LokiLogEntry[], tenantId?: string): Promise<PushResult> {
 	try {
-		const streams = [
-			{
-				stream: {
-					job: 'sveltekit',
-					container: 'stonewall-sveltekit',
-					environment: getNodeEnv(),
-					compose_service: 'sveltekit',
-				},
-				values: logsToSend.map((log) => [
-					(new Date(log.timestamp).getTime() * 1000000).toString(), 
-					JSON.stringify({
-						level: log.level,
-						msg: log.message,
-						...log.labels,
-					}),
-				]),
-			},
-		];
-
-		await fetch(`${getLokiUrl()}/loki/api/v1/push`, {
+		const config = getLoggingConfig();
+		const streams = buildStreams(entries);
+		const protobuf = config.lokiEncoding === 'protobuf';
+
+		const headers: Record<string, string> = {
+			'Content-Type': protobuf ? 'application/x-protobuf' : 'application/json',
+			...(await getAuthHeaders()),
+		};
+		if (tenantId) {
+			headers['X-Scope-OrgID'] = tenantId;
+		}
+
+		let body: string | Uint8Array = protobuf
+			? encodeProtobufPushRequest(streams)
+			: encodeJsonPushRequest(streams);
+		
+		if (!protobuf && config.lokiCompression === 'gzip') {
+			body = await gzipAsync(body);
+			headers['Content-Encoding'] = 'gzip';
+		}
+
+		const response = await fetch(`${getLokiUrl()}/loki/api/v1/push`, {
 			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json',
-			},
-			body: JSON.stringify({ streams }),
+			headers,
+			body,
+			signal: AbortSignal.timeout(getRetryConfig().requestTimeoutMs),
+		});
+
+		if (response.ok) {
+			return { ok: true };
+		}
+
+		return {
+			ok: false,
+			retryable: response.status === 429 || response.status >= 500,
+			status: response.status,
+			error: new Error(`Loki push failed with status ${response.status}`),
+			retryAfterMs: parseRetryAfter(response),
+		};
+	} catch (error) {
+		return { ok: false, retryable: true, error };
+	}
+}
+
+
+
+
+function getBufferConfig(): Required<LokiBufferConfig> {
+	const buffer = getLoggingConfig().lokiBuffer ?? {};
+	return {
+		maxEntries: buffer.maxEntries ?? 10000,
+		maxBytes: buffer.maxBytes ?? 8 * 1024 * 1024,
+		overflow: buffer.overflow ?? 'drop-oldest',
+		batchSize: buffer.batchSize ?? 1000,
+		maxRequestBytes: buffer.maxRequestBytes ?? 4 * 1024 * 1024,
+	};
+}
+
+
+
+
+function getSpool(): LokiSpool | null {
+	const config = getLoggingConfig();
+	if (!config.lokiSpool || config.lokiSpool.enabled === false) {
+		spoolCache = null;
+		return null;
+	}
+
+	const options = {
+		dir:
+			config.lokiSpool.dir ??
+			path.join(config.logsDir ?? process.cwd(), 'loki-spool'),
+		maxBytes: config.lokiSpool.maxBytes ?? 100 * 1024 * 1024,
+		segmentBytes: config.lokiSpool.segmentBytes ?? 1024 * 1024,
+	};
+	const key = JSON.stringify(options);
+
+	if (spoolCache?.key !== key) {
+		spoolCache = {
+			key,
+			spool: createLokiSpool({
+				...options,
+				onEvict: (entries) =>
+					dropEntries(
+						entries.map((entry) => ({ entry, attempts: 0, bytes: 0 })),
+						'spool-overflow',
+						{},
+					),
+			}),
+		};
+	}
+	return spoolCache.spool;
+}
+
+
+
+
+function estimateEntryBytes(entry: LokiLogEntry): number {
+	return Buffer.byteLength(JSON.stringify(entry)) + ENTRY_OVERHEAD_BYTES;
+}
+
+
+
+
+
+function evictionIndex(policy: LokiOverflowPolicy): number {
+	switch (policy) {
+		case 'drop-newest':
+			return logBuffer.length - 1;
+		case 'drop-debug-first': {
+			const debugIndex = logBuffer.findIndex((b) => b.entry.level === 'DEBUG');
+			return debugIndex === -1 ? 0 : debugIndex;
+		}
+		default:
+			return 0;
+	}
+}
+
+
+
+
+function enforceBufferLimits(): void {
+	const { maxEntries, maxBytes, overflow } = getBufferConfig();
+	const evicted: BufferedEntry[] = [];
+
+	while (logBuffer.length > 0 && (logBuffer.length > maxEntries || bufferBytes > maxBytes)) {
+		const [removed] = logBuffer.splice(evictionIndex(overflow), 1);
+		bufferBytes -= removed!.bytes;
+		evicted.push(removed!);
+	}
+
+	if (evicted.length > 0) {
+		dropEntries(evicted, 'overflow', {});
+	}
+}
+
+
+
+
+function dropEntries(
+	buffered: BufferedEntry[],
+	reason: LokiDropReason,
+	result: { status?: number; error?: unknown },
+): void {
+	stats.droppedBatches++;
+	stats.droppedEntries += buffered.length;
+
+	const onLokiError = getLoggingConfig().onLokiError;
+	if (!onLokiError) return;
+
+	try {
+		onLokiError({
+			reason,
+			entries: buffered.map((b) => b.entry),
+			attempts: buffered.reduce((max, b) => Math.max(max, b.attempts), 0),
+			status: result.status,
+			error: result.error,
 		});
 	} catch (err) {
+		console.error('Loki error callback threw:', err);
+	}
+}
+
+
+
+
+
+
+function splitIntoRequests(batch: BufferedEntry[]): BufferedEntry[][] {
+	const { maxRequestBytes } = getBufferConfig();
+	const requests: BufferedEntry[][] = [];
+	let current: BufferedEntry[] = [];
+	let currentBytes = REQUEST_OVERHEAD_BYTES;
+
+	for (const buffered of batch) {
+		if (current.length > 0 && currentBytes + buffered.bytes > maxRequestBytes) {
+			requests.push(current);
+			current = [];
+			currentBytes = REQUEST_OVERHEAD_BYTES;
+		}
+		current.push(buffered);
+		currentBytes += buffered.bytes;
+	}
+
+	if (current.length > 0) {
+		requests.push(current);
+	}
+	return requests;
+}
+
+
+
+
+
+
+interface SendFailure {
+	unsent: BufferedEntry[];
+	result: Extract<PushResult, { ok: false }>;
+}
+
+
+
+
+
+
+
+function groupByTenant(batch: BufferedEntry[]): Map<string | undefined, BufferedEntry[]> {
+	const tenantId = getLoggingConfig().lokiTenantId;
+	const groups = new Map<string | undefined, BufferedEntry[]>();
+	const failed: BufferedEntry[] = [];
+	let error: unknown;
+
+	for (const buffered of batch) {
+		let tenant: string | undefined;
+		try {
+			tenant = typeof tenantId === 'function' ? tenantId(buffered.entry) : tenantId;
+		} catch (err) {
+			console.error('Loki tenant callback threw:', err);
+			failed.push(buffered);
+			error = err;
+			continue;
+		}
+		const group = groups.get(tenant);
+		if (group) {
+			group.push(buffered);
+		} else {
+			groups.set(tenant, [buffered]);
+		}
+	}
+
+	if (failed.length > 0) {
+		dropEntries(failed, 'tenant-error', { error });
+	}
+	return groups;
+}
+
+
+
+
+
+
+
+async function sendBatch(batch: BufferedEntry[]): Promise<SendFailure | null> {
+	const requests = [...groupByTenant(batch)].flatMap(([tenant, entries]) =>
+		splitIntoRequests(entries).map((request) => ({ tenant, request })),
+	);
+
+	for (let i = 0; i < requests.length; i++) {
+		const { tenant, request } = requests[i]!;
+		const result = await pushEntries(
+			request.map((b) => b.entry),
+			tenant,
+		);
+		if (result.ok) {
+			consecutiveFailures = 0;
+			continue;
+		}
+
+		stats.failedPushes++;
 		
-		console.error('Failed to send logs to Loki:', err);
+		console.error('Failed to send logs to Loki:', result.error);
+
+		const attempted = request.map((b) => ({ ...b, attempts: b.attempts + 1 }));
+		if (!result.retryable) {
+			dropEntries(attempted, 'rejected', result);
+			continue;
+		}
+
+		
+		return {
+			unsent: [...attempted, ...requests.slice(i + 1).flatMap((r) => r.request)],
+			result,
+		};
 	}
+	return null;
+}
+
+
+
+
+function backOff(retryAfterMs?: number): void {
+	consecutiveFailures++;
+	scheduleFlush(getBackoffDelay(retryAfterMs), true);
+}
+
+
+
+
+function failedAttempt(batch: BufferedEntry[], error: unknown): SendFailure {
+	return {
+		unsent: batch.map((b) => ({ ...b, attempts: b.attempts + 1 })),
+		result: { ok: false, retryable: true, error },
+	};
 }
 
 
 
 
-function scheduleFlush(): void {
-	if (flushTimer) return;
+function requeue(failure: SendFailure): void {
+	const { maxAttempts } = getRetryConfig();
+	const retry = failure.unsent.filter((b) => b.attempts < maxAttempts);
+	const exhausted = failure.unsent.filter((b) => b.attempts >= maxAttempts);
+
+	if (exhausted.length > 0) {
+		dropEntries(exhausted, 'max-attempts', failure.result);
+	}
+
+	if (retry.length > 0) {
+		logBuffer = [...retry, ...logBuffer];
+		bufferBytes += retry.reduce((sum, b) => sum + b.bytes, 0);
+		enforceBufferLimits();
+		backOff(failure.result.retryAfterMs);
+	}
+}
+
+
+
+
+
+async function spoolEntries(spool: LokiSpool, entries: BufferedEntry[]): Promise<boolean> {
+	try {
+		await spool.append(entries.map((b) => b.entry));
+		return true;
+	} catch (err) {
+		console.error('Failed to write Loki spool:', err);
+		return false;
+	}
+}
+
+
+
+
+
+
+async function replaySpool(spool: LokiSpool): Promise<SendFailure | null> {
+	const { batchSize } = getBufferConfig();
+	for (;;) {
+		const batch = await spool.read(batchSize);
+		if (!batch) return null;
+
+		const failure = await sendBatch(
+			batch.entries.map((entry) => ({ entry, attempts: 0, bytes: estimateEntryBytes(entry) })),
+		);
+		if (failure) return failure;
+
+		await spool.ack(batch);
+	}
+}
+
+
+
+
+
+
+async function flushBuffered(): Promise<void> {
+	earlyFlushQueued = false;
+	const spool = getSpool();
+
+	try {
+		if (logBuffer.length === 0 && !(spool && (await spool.hasPending()))) return;
+	} catch (err) {
+		console.error('Failed to read Loki spool:', err);
+		if (logBuffer.length === 0) return;
+	}
+
+	const batch = logBuffer;
+	logBuffer = [];
+	bufferBytes = 0;
+
+	if (!spool) {
+		let failure: SendFailure | null;
+		try {
+			failure = await sendBatch(batch);
+		} catch (err) {
+			console.error('Failed to send logs to Loki:', err);
+			failure = failedAttempt(batch, err);
+		}
+		if (failure) requeue(failure);
+		return;
+	}
+
+	let failure: SendFailure | null;
+	let unsent: BufferedEntry[];
+	try {
+		failure = await replaySpool(spool);
+		unsent = batch;
+		if (!failure) {
+			failure = await sendBatch(batch);
+			unsent = failure?.unsent ?? [];
+		}
+	} catch (err) {
+		console.error('Failed to replay Loki spool:', err);
+		requeue(failedAttempt(batch, err));
+		return;
+	}
+
+	if (!failure) return;
+
+	if (await spoolEntries(spool, unsent)) {
+		backOff(failure.result.retryAfterMs);
+	} else {
+		requeue({ ...failure, unsent });
+	}
+}
+
+
+
+
+
+
+export async function flushLogs(): Promise<void> {
+	const run = flushChain.then(flushBuffered).catch((err) => {
+		console.error('Failed to flush logs to Loki:', err);
+	});
+	flushChain = run;
+	return run;
+}
+
+
+
+
+function scheduleFlush(delayMs: number = 1000, replace: boolean = false): void {
+	if (flushTimer) {
+		if (!replace) return;
+		clearTimeout(flushTimer);
+	}
 	flushTimer = setTimeout(() => {
 		flushTimer = null;
 		flushLogs();
-	}, 1000); 
+	}, delayMs); 
 }
 
 
@@ -107,38 +695,315 @@ function scheduleFlush(): void {
 
 
 
-export function log(level: string, message: string, labels: Record<string, string> = {}): void {
-	const entry: LokiLogEntry = {
-		level: level.toUpperCase(),
-		message,
-		timestamp: new Date().toISOString(),
+const TRACE_METADATA_KEYS = ['trace_id', 'span_id'];
+
+
+
+
+
+
+
+
+
+
+export function log(
+	level: string,
+	message: string,
+	labels: Record<string, string> = {},
+	metadata: Record<string, string> = {},
+): void {
+	if (!shouldSample(level, getLoggingConfig().lokiSampleRates)) return;
+	const transports = resolveTransports(getDefaultTransports);
+	if (!anyAccepts(transports, 'loki', level)) return;
+
+	const entryLabels: Record<string, string> = {};
+	const entryMetadata: Record<string, string> = {};
+
+	for (const [key, value] of Object.entries(getTraceContext())) {
+		if (value) entryMetadata[key] = value;
+	}
+	for (const [key, value] of Object.entries(getLogContext())) {
+		if (value === undefined) continue;
+		entryLabels[key] = typeof value === 'string' ? value : safeStringify(value);
+	}
+	for (const [key, value] of Object.entries(labels)) {
+		if (TRACE_METADATA_KEYS.includes(key)) {
+			entryMetadata[key] = value;
+		} else {
+			entryLabels[key] = value;
+		}
+	}
+	Object.assign(entryMetadata, metadata);
+
+	const redactedLabels = redact(toSerializable(entryLabels));
+	const redactedMetadata = redact(toSerializable(entryMetadata));
+	const record: LogRecord = {
+		source: 'loki',
+		level: level.toLowerCase(),
+		message: redactString(message),
+		timestamp: Date.now(),
+		context: redactedLabels,
+		traceId: redactedMetadata.trace_id,
+		spanId: redactedMetadata.span_id,
+		labels: redactedLabels,
+		...(Object.keys(redactedMetadata).length > 0 && { metadata: redactedMetadata }),
+	};
+
+	dispatch(record, transports);
+}
+
+
+
+
+function getDefaultTransports(): Transport[] {
+	const config = getLoggingConfig();
+	const transports = [consoleTransport({ level: config.consoleLevel })];
+	if (isLokiEnabled()) {
+		transports.push(lokiTransport({ level: config.lokiLevel }));
+	}
+	return transports;
+}
+
+
+
+
+
+function toLokiEntry(record: LogRecord): LokiLogEntry {
+	let labels = record.labels;
+	if (!labels) {
+		labels = {};
+		for (const [key, value] of Object.entries(record.context)) {
+			if (value === undefined) continue;
+			labels[key] = typeof value === 'string' ? value : safeStringify(value);
+		}
+	}
+
+	const metadata = record.metadata ?? {
+		...(record.traceId && { trace_id: record.traceId }),
+		...(record.spanId && { span_id: record.spanId }),
+	};
+
+	return {
+		level: record.level.toUpperCase(),
+		message: record.message,
+		timestamp: new Date(record.timestamp).toISOString(),
 		labels,
+		...(Object.keys(metadata).length > 0 && { metadata }),
 	};
+}
 
-	
-	console.log(`[${entry.timestamp}] [${entry.level}] ${entry.message}`, labels);
+
+
+
+function enqueue(entry: LokiLogEntry): void {
+	const bytes = estimateEntryBytes(entry);
+	logBuffer.push({ entry, attempts: 0, bytes });
+	bufferBytes += bytes;
+	enforceBufferLimits();
+	scheduleFlush();
 
 	
-	if (isLokiEnabled()) {
-		logBuffer.push(entry);
-		scheduleFlush();
+	if (
+		logBuffer.length >= getBufferConfig().batchSize &&
+		consecutiveFailures === 0 &&
+		!earlyFlushQueued
+	) {
+		earlyFlushQueued = true;
+		flushLogs();
 	}
 }
 
 
 
 
+
+
+
+export function lokiTransport(options: TransportOptions = {}): Transport {
+	return {
+		name: 'loki',
+		...options,
+		write: (record) => {
+			if (isLokiEnabled()) {
+				enqueue(toLokiEntry(record));
+			}
+		},
+		flush: () => flushLogs(),
+		close: (deadline = Date.now() + DEFAULT_SHUTDOWN_TIMEOUT_MS) => drainLokiBuffer(deadline),
+	};
+}
+
+
+
+
 export const lokiLogger = {
-	debug: (message: string, labels?: Record<string, string>) => log('DEBUG', message, labels),
-	info: (message: string, labels?: Record<string, string>) => log('INFO', message, labels),
-	warn: (message: string, labels?: Record<string, string>) => log('WARN', message, labels),
-	error: (message: string, labels?: Record<string, string>) => log('ERROR', message, labels),
+	debug: (message: string, labels?: Record<string, string>, metadata?: Record<string, string>) =>
+		log('DEBUG', message, labels, metadata),
+	info: (message: string, labels?: Record<string, string>, metadata?: Record<string, string>) =>
+		log('INFO', message, labels, metadata),
+	warn: (message: string, labels?: Record<string, string>, metadata?: Record<string, string>) =>
+		log('WARN', message, labels, metadata),
+	error: (message: string, labels?: Record<string, string>, metadata?: Record<string, string>) =>
+		log('ERROR', message, labels, metadata),
 };
 
 
 
 
 
+function clearFlushTimer(): void {
+	if (flushTimer) {
+		clearTimeout(flushTimer);
+		flushTimer = null;
+	}
+}
+
+
+
+
+function waitUntil<T>(promise: Promise<T>, deadline: number): Promise<T | void> {
+	const remaining = deadline - Date.now();
+	if (remaining <= 0) return Promise.resolve();
+
+	let timer: ReturnType<typeof setTimeout> | undefined;
+	const timeout = new Promise<void>((resolve) => {
+		timer = setTimeout(resolve, remaining);
+	});
+	return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+
+
+
+
+
+
+
+
+async function drainBuffer(deadline: number): Promise<void> {
+	clearFlushTimer();
+	await waitUntil(flushChain, deadline);
+
+	while (logBuffer.length > 0 && Date.now() < deadline) {
+		await waitUntil(flushLogs(), deadline);
+		clearFlushTimer();
+
+		if (logBuffer.length > 0 && consecutiveFailures > 0) {
+			const delay = Math.min(getBackoffDelay(), deadline - Date.now());
+			await waitUntil(new Promise((resolve) => setTimeout(resolve, delay)), deadline);
+		}
+	}
+
+	clearFlushTimer();
+	if (logBuffer.length > 0) {
+		const remaining = logBuffer;
+		logBuffer = [];
+		bufferBytes = 0;
+
+		const spool = getSpool();
+		if (!spool || !(await spoolEntries(spool, remaining))) {
+			dropEntries(remaining, 'shutdown', {});
+		}
+	}
+}
+
+
+let drainPromise: Promise<void> | null = null;
+
+
+
+
+function drainLokiBuffer(deadline: number): Promise<void> {
+	drainPromise ??= drainBuffer(deadline).finally(() => {
+		drainPromise = null;
+	});
+	return drainPromise;
+}
+
+
+
+
+
+
+
+
+
+export async function shutdownLogging(options: ShutdownOptions = {}): Promise<void> {
+	const deadline = Date.now() + (options.timeoutMs ?? DEFAULT_SHUTDOWN_TIMEOUT_MS);
+	await Promise.all([
+		drainLokiBuffer(deadline),
+		waitUntil(closeTransports(undefined, deadline), deadline),
+	]);
+}
+
+
+let shutdownPromise: Promise<void> | null = null;
+
+
+
+
+
+
+
+
+
+
+
+export function installShutdownHandlers(options: ShutdownHandlerOptions = {}): () => void {
+	const signals = options.signals ?? ['SIGTERM', 'SIGINT'];
+
+	const runShutdown = (): Promise<void> => {
+		shutdownPromise ??= shutdownLogging(options).finally(() => {
+			shutdownPromise = null;
+		});
+		return shutdownPromise;
+	};
+
+	const onSignal = (signal: NodeJS.Signals): void => {
+		
+		const shouldExit = options.exitOnSignal ?? process.listenerCount(signal) === 1;
+		if (shutdownPromise && shouldExit) {
+			process.exit(128 + (os.constants.signals[signal] ?? 0));
+		}
+		runShutdown().finally(() => {
+			if (shouldExit) {
+				process.exit(128 + (os.constants.signals[signal] ?? 0));
+			}
+		});
+	};
+
+	const onBeforeExit = (): void => {
+		if (logBuffer.length > 0) {
+			runShutdown();
+		}
+	};
+
+	for (const signal of signals) {
+		process.on(signal, onSignal);
+	}
+	process.on('beforeExit', onBeforeExit);
+
+	return () => {
+		for (const signal of signals) {
+			process.off(signal, onSignal);
+		}
+		process.off('beforeExit', onBeforeExit);
+	};
+}
+
+
+
+
+
+
+export function getLokiStats(): LokiStats {
+	return { ...stats };
+}
+
+
+
+
+
 export function _getBufferLength(): number {
 	return logBuffer.length;
 }
@@ -149,10 +1014,15 @@ export function _getBufferLength(): number {
 
 export function _resetBuffer(): void {
 	logBuffer = [];
-	if (flushTimer) {
-		clearTimeout(flushTimer);
-		flushTimer = null;
-	}
+	bufferBytes = 0;
+	earlyFlushQueued = false;
+	spoolCache = null;
+	flushChain = Promise.resolve();
+	consecutiveFailures = 0;
+	stats = { droppedBatches: 0, droppedEntries: 0, failedPushes: 0 };
+	shutdownPromise = null;
+	drainPromise = null;
+	clearFlushTimer();
 }
 
 
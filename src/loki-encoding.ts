@@ -0,0 +1,91 @@
+
+
+
+
+
+
+
+
+
+
+import { createProtoWriter } from './protobuf.js';
+import type { ProtoWriter } from './protobuf.js';
+import { snappyCompress } from './snappy.js';
+
+
+
+
+export type LokiValue = [string, string] | [string, string, Record<string, string>];
+
+
+
+
+export interface LokiStream {
+	stream: Record<string, string>;
+	values: LokiValue[];
+}
+
+
+
+
+function escapeLabelValue(value: string): string {
+	return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+
+
+
+
+export function formatLabels(labels: Record<string, string>): string {
+	const pairs = Object.keys(labels)
+		.sort()
+		.map((key) => `${key}="${escapeLabelValue(labels[key]!)}"`);
+	return `{${pairs.join(', ')}}`;
+}
+
+
+
+
+export function encodeJsonPushRequest(streams: LokiStream[]): string {
+	return JSON.stringify({ streams });
+}
+
+
+
+
+function writeTimestamp(writer: ProtoWriter, nanoseconds: string): void {
+	const digits = nanoseconds.padStart(10, '0');
+	const seconds = Number(digits.slice(0, -9));
+	const nanos = Number(digits.slice(-9));
+	writer.varint(1, seconds);
+	if (nanos !== 0) writer.varint(2, nanos);
+}
+
+
+
+
+
+
+export function encodeProtobufPushRequest(streams: LokiStream[]): Uint8Array {
+	const writer = createProtoWriter();
+	for (const stream of streams) {
+		writer.begin(1);
+		writer.string(1, formatLabels(stream.stream));
+		for (const [timestamp, line, metadata] of stream.values) {
+			writer.begin(2);
+			writer.begin(1);
+			writeTimestamp(writer, timestamp);
+			writer.end();
+			writer.string(2, line);
+			for (const name in metadata) {
+				writer.begin(3);
+				writer.string(1, name);
+				writer.string(2, metadata[name]!);
+				writer.end();
+			}
+			writer.end();
+		}
+		writer.end();
+	}
+	return snappyCompress(writer.finish());
+}
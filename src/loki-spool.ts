@@ -0,0 +1,233 @@
+
+
+
+
+
+
+
+
+
+
+
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+import type { LokiLogEntry } from './types.js';
+
+
+
+
+export interface LokiSpoolOptions {
+	dir: string;
+	maxBytes: number;
+	segmentBytes: number;
+	onEvict?: (entries: LokiLogEntry[]) => void;
+}
+
+
+
+
+export interface LokiSpoolBatch {
+	segment: number;
+	endLine: number;
+	complete: boolean;
+	entries: LokiLogEntry[];
+}
+
+
+
+
+export interface LokiSpool {
+	append: (entries: LokiLogEntry[]) => Promise<void>;
+	hasPending: () => Promise<boolean>;
+	read: (maxEntries: number) => Promise<LokiSpoolBatch | null>;
+	ack: (batch: LokiSpoolBatch) => Promise<void>;
+	totalBytes: () => Promise<number>;
+}
+
+
+const SEGMENT_PATTERN = /^segment-(\d+)\.ndjson$/;
+
+
+const CURSOR_FILE = 'cursor.json';
+
+
+
+
+function segmentFile(dir: string, segment: number): string {
+	return path.join(dir, `segment-${segment.toString().padStart(12, '0')}.ndjson`);
+}
+
+
+
+
+function parseLines(content: string): string[] {
+	const lines = content.split('\n');
+	if (lines[lines.length - 1] === '') {
+		lines.pop();
+	}
+	return lines;
+}
+
+
+
+
+function parseEntries(lines: string[]): LokiLogEntry[] {
+	const entries: LokiLogEntry[] = [];
+	for (const line of lines) {
+		try {
+			entries.push(JSON.parse(line) as LokiLogEntry);
+		} catch {
+
+		}
+	}
+	return entries;
+}
+
+
+
+
+
+
+
+
+
+
+
+
+
+export function createLokiSpool(options: LokiSpoolOptions): LokiSpool {
+	const { dir, maxBytes, segmentBytes } = options;
+
+	let loaded = false;
+
+	let segments: { id: number; bytes: number }[] = [];
+	let activeSegment: number | null = null;
+	let cursor: { segment: number; line: number } | null = null;
+
+	const load = async (): Promise<void> => {
+		if (loaded) return;
+		await fs.mkdir(dir, { recursive: true });
+
+		const files = await fs.readdir(dir);
+		segments = [];
+		for (const file of files) {
+			const match = SEGMENT_PATTERN.exec(file);
+			if (!match) continue;
+			const id = Number(match[1]);
+			const stat = await fs.stat(segmentFile(dir, id));
+			segments.push({ id, bytes: stat.size });
+		}
+		segments.sort((a, b) => a.id - b.id);
+
+		try {
+			cursor = JSON.parse(await fs.readFile(path.join(dir, CURSOR_FILE), 'utf8'));
+		} catch {
+			cursor = null;
+		}
+
+
+		activeSegment = null;
+		loaded = true;
+	};
+
+	const writeCursor = async (): Promise<void> => {
+		const cursorFile = path.join(dir, CURSOR_FILE);
+		if (cursor) {
+			await fs.writeFile(cursorFile, JSON.stringify(cursor), 'utf8');
+		} else {
+			await fs.rm(cursorFile, { force: true });
+		}
+	};
+
+	const removeSegment = async (id: number): Promise<void> => {
+		await fs.rm(segmentFile(dir, id), { force: true });
+		segments = segments.filter((s) => s.id !== id);
+		if (activeSegment === id) {
+			activeSegment = null;
+		}
+		if (cursor?.segment === id) {
+			cursor = null;
+			await writeCursor();
+		}
+	};
+
+	const evictOverflow = async (): Promise<void> => {
+		let total = segments.reduce((sum, s) => sum + s.bytes, 0);
+		while (total > maxBytes && segments.length > 0) {
+			const oldest = segments[0]!;
+			let lines = parseLines(await fs.readFile(segmentFile(dir, oldest.id), 'utf8'));
+			if (cursor?.segment === oldest.id) {
+				lines = lines.slice(cursor.line);
+			}
+			await removeSegment(oldest.id);
+			total -= oldest.bytes;
+			options.onEvict?.(parseEntries(lines));
+		}
+	};
+
+	return {
+		append: async (entries) => {
+			if (entries.length === 0) return;
+			await load();
+
+			const data = entries.map((entry) => JSON.stringify(entry)).join('\n') + '\n';
+			const bytes = Buffer.byteLength(data);
+
+			let active = segments.find((s) => s.id === activeSegment);
+			if (!active || active.bytes >= segmentBytes) {
+				const nextId = (segments[segments.length - 1]?.id ?? cursor?.segment ?? 0) + 1;
+				active = { id: nextId, bytes: 0 };
+				segments.push(active);
+				activeSegment = nextId;
+			}
+
+			await fs.appendFile(segmentFile(dir, active.id), data, 'utf8');
+			active.bytes += bytes;
+
+			await evictOverflow();
+		},
+
+		hasPending: async () => {
+			await load();
+			return segments.length > 0;
+		},
+
+		read: async (maxEntries) => {
+			await load();
+			const oldest = segments[0];
+			if (!oldest) return null;
+
+
+			if (oldest.id === activeSegment) {
+				activeSegment = null;
+			}
+
+			const lines = parseLines(await fs.readFile(segmentFile(dir, oldest.id), 'utf8'));
+			const startLine = cursor?.segment === oldest.id ? cursor.line : 0;
+			const endLine = Math.min(lines.length, startLine + maxEntries);
+
+			return {
+				segment: oldest.id,
+				endLine,
+				complete: endLine >= lines.length,
+				entries: parseEntries(lines.slice(startLine, endLine)),
+			};
+		},
+
+		ack: async (batch) => {
+			await load();
+			if (batch.complete) {
+				await removeSegment(batch.segment);
+				return;
+			}
+			cursor = { segment: batch.segment, line: batch.endLine };
+			await writeCursor();
+		},
+
+		totalBytes: async () => {
+			await load();
+			return segments.reduce((sum, s) => sum + s.bytes, 0);
+		},
+	};
+}
@@ -0,0 +1,296 @@
+export class MsgpackExt {
+	constructor(
+		public readonly type: number,
+		public readonly data: Uint8Array,
+	) {}
+}
+
+
+const textEncoder = new TextEncoder();
+
+
+const textDecoder = new TextDecoder();
+
+
+
+
+function header(byte: number, length: number, bytes: 1 | 2 | 4): Buffer {
+	const out = Buffer.alloc(1 + bytes);
+	out[0] = byte;
+	if (bytes === 1) out.writeUInt8(length, 1);
+	else if (bytes === 2) out.writeUInt16BE(length, 1);
+	else out.writeUInt32BE(length, 1);
+	return out;
+}
+
+
+
+
+function encodeInteger(value: number, parts: Uint8Array[]): void {
+	if (value >= 0) {
+		if (value < 0x80) parts.push(Uint8Array.of(value));
+		else if (value < 0x100) parts.push(header(0xcc, value, 1));
+		else if (value < 0x10000) parts.push(header(0xcd, value, 2));
+		else if (value < 0x100000000) parts.push(header(0xce, value, 4));
+		else {
+			const out = Buffer.alloc(9);
+			out[0] = 0xcf;
+			out.writeBigUInt64BE(BigInt(value), 1);
+			parts.push(out);
+		}
+		return;
+	}
+	if (value >= -32) {
+		parts.push(Uint8Array.of(value & 0xff));
+	} else if (value >= -0x80) {
+		const out = Buffer.alloc(2);
+		out[0] = 0xd0;
+		out.writeInt8(value, 1);
+		parts.push(out);
+	} else if (value >= -0x8000) {
+		const out = Buffer.alloc(3);
+		out[0] = 0xd1;
+		out.writeInt16BE(value, 1);
+		parts.push(out);
+	} else if (value >= -0x80000000) {
+		const out = Buffer.alloc(5);
+		out[0] = 0xd2;
+		out.writeInt32BE(value, 1);
+		parts.push(out);
+	} else {
+		const out = Buffer.alloc(9);
+		out[0] = 0xd3;
+		out.writeBigInt64BE(BigInt(value), 1);
+		parts.push(out);
+	}
+}
+
+
+
+
+function encodeLength(length: number, fix: number, fixMax: number, codes: [number, number, number]): Buffer {
+	if (length <= fixMax && fix >= 0) return Buffer.of(fix | length);
+	if (length < 0x100 && codes[0] >= 0) return header(codes[0], length, 1);
+	if (length < 0x10000) return header(codes[1], length, 2);
+	return header(codes[2], length, 4);
+}
+
+
+
+
+function encodeInto(value: unknown, parts: Uint8Array[]): void {
+	if (value === null || value === undefined) {
+		parts.push(Uint8Array.of(0xc0));
+	} else if (typeof value === 'boolean') {
+		parts.push(Uint8Array.of(value ? 0xc3 : 0xc2));
+	} else if (typeof value === 'number') {
+		if (Number.isSafeInteger(value)) {
+			encodeInteger(value, parts);
+		} else {
+			const out = Buffer.alloc(9);
+			out[0] = 0xcb;
+			out.writeDoubleBE(value, 1);
+			parts.push(out);
+		}
+	} else if (typeof value === 'bigint') {
+		const out = Buffer.alloc(9);
+		out[0] = value < 0n ? 0xd3 : 0xcf;
+		if (value < 0n) out.writeBigInt64BE(value, 1);
+		else out.writeBigUInt64BE(value, 1);
+		parts.push(out);
+	} else if (typeof value === 'string') {
+		const bytes = textEncoder.encode(value);
+		parts.push(encodeLength(bytes.length, 0xa0, 31, [0xd9, 0xda, 0xdb]), bytes);
+	} else if (value instanceof MsgpackExt) {
+		const fixed: Record<number, number> = { 1: 0xd4, 2: 0xd5, 4: 0xd6, 8: 0xd7, 16: 0xd8 };
+		const code = fixed[value.data.length];
+		parts.push(
+			code !== undefined
+				? Uint8Array.of(code, value.type)
+				: Buffer.concat([encodeLength(value.data.length, -1, -1, [0xc7, 0xc8, 0xc9]), Uint8Array.of(value.type)]),
+			value.data,
+		);
+	} else if (value instanceof Uint8Array) {
+		parts.push(encodeLength(value.length, -1, -1, [0xc4, 0xc5, 0xc6]), value);
+	} else if (value instanceof Date) {
+		encodeInto(value.toISOString(), parts);
+	} else if (Array.isArray(value)) {
+		parts.push(encodeLength(value.length, 0x90, 15, [-1, 0xdc, 0xdd]));
+		for (const item of value) encodeInto(item, parts);
+	} else if (typeof value === 'object') {
+		const entries = Object.entries(value as Record<string, unknown>).filter(
+			([, item]) => item !== undefined && typeof item !== 'function',
+		);
+		parts.push(encodeLength(entries.length, 0x80, 15, [-1, 0xde, 0xdf]));
+		for (const [key, item] of entries) {
+			encodeInto(key, parts);
+			encodeInto(item, parts);
+		}
+	} else {
+		encodeInto(String(value), parts);
+	}
+}
+
+
+
+
+
+
+export function encodeMsgpack(value: unknown): Buffer {
+	const parts: Uint8Array[] = [];
+	encodeInto(value, parts);
+	return Buffer.concat(parts);
+}
+
+
+
+
+export interface MsgpackDecodeResult {
+	value: unknown;
+	offset: number;
+}
+
+
+
+
+
+
+export function decodeMsgpack(input: Uint8Array, start = 0): MsgpackDecodeResult {
+	const buf = Buffer.from(input.buffer, input.byteOffset, input.byteLength);
+	let offset = start;
+
+	const need = (bytes: number): void => {
+		if (offset + bytes > buf.length) throw new RangeError('Truncated MessagePack input');
+	};
+
+	const readBytes = (length: number): Uint8Array => {
+		need(length);
+		const out = buf.subarray(offset, offset + length);
+		offset += length;
+		return out;
+	};
+
+	const readLength = (bytes: 1 | 2 | 4): number => {
+		need(bytes);
+		const length = bytes === 1 ? buf.readUInt8(offset) : bytes === 2 ? buf.readUInt16BE(offset) : buf.readUInt32BE(offset);
+		offset += bytes;
+		return length;
+	};
+
+	const readArray = (length: number): unknown[] => Array.from({ length }, () => read());
+
+	const readMap = (length: number): Record<string, unknown> => {
+		const out: Record<string, unknown> = {};
+		for (let i = 0; i < length; i++) {
+			const key = read();
+			out[String(key)] = read();
+		}
+		return out;
+	};
+
+	const readExt = (length: number): MsgpackExt => {
+		need(1);
+		const type = buf.readInt8(offset++);
+		return new MsgpackExt(type, readBytes(length));
+	};
+
+	const read = (): unknown => {
+		need(1);
+		const byte = buf[offset++]!;
+
+		if (byte < 0x80) return byte;
+		if (byte >= 0xe0) return byte - 0x100;
+		if (byte >= 0x80 && byte <= 0x8f) return readMap(byte & 0x0f);
+		if (byte >= 0x90 && byte <= 0x9f) return readArray(byte & 0x0f);
+		if (byte >= 0xa0 && byte <= 0xbf) return textDecoder.decode(readBytes(byte & 0x1f));
+
+		switch (byte) {
+			case 0xc0:
+				return null;
+			case 0xc2:
+				return false;
+			case 0xc3:
+				return true;
+			case 0xc4:
+				return readBytes(readLength(1));
+			case 0xc5:
+				return readBytes(readLength(2));
+			case 0xc6:
+				return readBytes(readLength(4));
+			case 0xc7:
+				return readExt(readLength(1));
+			case 0xc8:
+				return readExt(readLength(2));
+			case 0xc9:
+				return readExt(readLength(4));
+			case 0xca:
+				need(4);
+				offset += 4;
+				return buf.readFloatBE(offset - 4);
+			case 0xcb:
+				need(8);
+				offset += 8;
+				return buf.readDoubleBE(offset - 8);
+			case 0xcc:
+				return readLength(1);
+			case 0xcd:
+				return readLength(2);
+			case 0xce:
+				return readLength(4);
+			case 0xcf: {
+				need(8);
+				const value = buf.readBigUInt64BE(offset);
+				offset += 8;
+				return value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+			}
+			case 0xd0:
+				need(1);
+				return buf.readInt8(offset++);
+			case 0xd1:
+				need(2);
+				offset += 2;
+				return buf.readInt16BE(offset - 2);
+			case 0xd2:
+				need(4);
+				offset += 4;
+				return buf.readInt32BE(offset - 4);
+			case 0xd3: {
+				need(8);
+				const value = buf.readBigInt64BE(offset);
+				offset += 8;
+				return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)
+					? Number(value)
+					: value;
+			}
+			case 0xd4:
+				return readExt(1);
+			case 0xd5:
+				return readExt(2);
+			case 0xd6:
+				return readExt(4);
+			case 0xd7:
+				return readExt(8);
+			case 0xd8:
+				return readExt(16);
+			case 0xd9:
+				return textDecoder.decode(readBytes(readLength(1)));
+			case 0xda:
+				return textDecoder.decode(readBytes(readLength(2)));
+			case 0xdb:
+				return textDecoder.decode(readBytes(readLength(4)));
+			case 0xdc:
+				return readArray(readLength(2));
+			case 0xdd:
+				return readArray(readLength(4));
+			case 0xde:
+				return readMap(readLength(2));
+			case 0xdf:
+				return readMap(readLength(4));
+			default:
+				throw new Error(`Unsupported MessagePack type 0x${byte.toString(16)}`);
+		}
+	};
+
+	const value = read();
+	return { value, offset };
+}
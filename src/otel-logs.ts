@@ -0,0 +1,128 @@
+
+
+
+
+
+
+
+
+
+
+
+
+import { getLoggingConfig } from './config.js';
+import { normalizeLevel } from './levels.js';
+import { OTLP_SEVERITY_NUMBER } from './transport-otlp.js';
+import type { LogRecord } from './types.js';
+
+
+
+
+
+type LogsApi = typeof import('@opentelemetry/api-logs');
+type ContextApi = typeof import('@opentelemetry/api').context;
+type OtelLogger = import('@opentelemetry/api-logs').Logger;
+type OtelLoggerProvider = import('@opentelemetry/api-logs').LoggerProvider;
+type OtelAttributes = import('@opentelemetry/api-logs').LogAttributes;
+
+
+const SCOPE_NAME = '@tummycrypt/tinyland-logging';
+
+let logsApi: LogsApi | undefined;
+let contextApi: ContextApi | undefined;
+
+try {
+	
+	logsApi = await import('@opentelemetry/api-logs');
+} catch {
+	
+}
+
+try {
+	const otel = await import('@opentelemetry/api');
+	contextApi = otel.context;
+} catch {
+	
+}
+
+let cachedProvider: OtelLoggerProvider | undefined;
+let cachedLogger: OtelLogger | undefined;
+
+
+
+
+
+function getRegisteredProvider(): OtelLoggerProvider | undefined {
+	if (!logsApi) return undefined;
+	const provider = logsApi.logs.getLoggerProvider();
+	
+	const { ProxyLoggerProvider } = logsApi as Partial<LogsApi>;
+	if ((ProxyLoggerProvider && provider instanceof ProxyLoggerProvider) || provider === logsApi.NOOP_LOGGER_PROVIDER) {
+		return undefined;
+	}
+	return provider;
+}
+
+
+
+
+
+function getOtelLogger(): OtelLogger | undefined {
+	const provider = getRegisteredProvider();
+	if (!provider) return undefined;
+	if (provider !== cachedProvider || !cachedLogger) {
+		cachedProvider = provider;
+		cachedLogger = provider.getLogger(SCOPE_NAME);
+	}
+	return cachedLogger;
+}
+
+
+
+
+function toAttributes(record: LogRecord): OtelAttributes {
+	const attributes: OtelAttributes = {};
+	for (const [key, value] of Object.entries(record.context)) {
+		if (value === undefined || typeof value === 'function' || typeof value === 'symbol') continue;
+		attributes[key] = value as OtelAttributes[string];
+	}
+	attributes['log.source'] = record.source;
+	return attributes;
+}
+
+
+
+
+
+
+
+export function emitOtelLogRecord(record: LogRecord): void {
+	if (getLoggingConfig().otelLogs === false) return;
+
+	try {
+		const otelLogger = getOtelLogger();
+		if (!otelLogger) return;
+
+		const level = normalizeLevel(record.level);
+		otelLogger.emit({
+			timestamp: record.timestamp,
+			severityNumber: level ? OTLP_SEVERITY_NUMBER[level] : 0,
+			severityText: record.level.toUpperCase(),
+			body: record.message,
+			attributes: toAttributes(record),
+			context: contextApi?.active(),
+		});
+	} catch {
+		
+	}
+}
+
+
+
+
+
+export function _setLogsApi(api: LogsApi | undefined): void {
+	logsApi = api;
+	cachedProvider = undefined;
+	cachedLogger = undefined;
+}
@@ -0,0 +1,261 @@
+
+
+
+
+
+
+
+
+
+
+
+export type ProtoField =
+	| { field: number; wireType: 0; value: bigint }
+	| { field: number; wireType: 1; value: Uint8Array }
+	| { field: number; wireType: 2; value: Uint8Array }
+	| { field: number; wireType: 5; value: Uint8Array };
+
+
+const textEncoder = new TextEncoder();
+
+
+const textDecoder = new TextDecoder();
+
+
+
+
+export function encodeVarint(value: number | bigint): Uint8Array {
+	if (typeof value === 'number' && Number.isSafeInteger(value) && value >= 0) {
+		const bytes: number[] = [];
+		let remaining = value;
+		while (remaining > 0x7f) {
+			bytes.push((remaining % 128) | 0x80);
+			remaining = Math.floor(remaining / 128);
+		}
+		bytes.push(remaining);
+		return Uint8Array.from(bytes);
+	}
+	let remaining = BigInt.asUintN(64, BigInt(value));
+	const bytes: number[] = [];
+	do {
+		let byte = Number(remaining & 0x7fn);
+		remaining >>= 7n;
+		if (remaining > 0n) byte |= 0x80;
+		bytes.push(byte);
+	} while (remaining > 0n);
+	return Uint8Array.from(bytes);
+}
+
+
+
+
+export function concatBytes(parts: Uint8Array[]): Uint8Array {
+	const total = parts.reduce((sum, part) => sum + part.length, 0);
+	const out = new Uint8Array(total);
+	let offset = 0;
+	for (const part of parts) {
+		out.set(part, offset);
+		offset += part.length;
+	}
+	return out;
+}
+
+
+
+
+function fieldTag(field: number, wireType: number): Uint8Array {
+	return encodeVarint((field << 3) | wireType);
+}
+
+
+
+
+export function varintField(field: number, value: number | bigint): Uint8Array {
+	return concatBytes([fieldTag(field, 0), encodeVarint(value)]);
+}
+
+
+
+
+export function bytesField(field: number, value: Uint8Array): Uint8Array {
+	return concatBytes([fieldTag(field, 2), encodeVarint(value.length), value]);
+}
+
+
+
+
+export function stringField(field: number, value: string): Uint8Array {
+	return bytesField(field, textEncoder.encode(value));
+}
+
+
+
+
+export function fixed64Field(field: number, value: bigint): Uint8Array {
+	const bytes = new Uint8Array(8);
+	new DataView(bytes.buffer).setBigUint64(0, BigInt.asUintN(64, value), true);
+	return concatBytes([fieldTag(field, 1), bytes]);
+}
+
+
+
+
+export function doubleField(field: number, value: number): Uint8Array {
+	const bytes = new Uint8Array(8);
+	new DataView(bytes.buffer).setFloat64(0, value, true);
+	return concatBytes([fieldTag(field, 1), bytes]);
+}
+
+
+
+
+
+export interface ProtoWriter {
+	varint: (field: number, value: number) => void;
+	string: (field: number, value: string) => void;
+	begin: (field: number) => void;
+	end: () => void;
+	finish: () => Uint8Array;
+}
+
+
+const LENGTH_RESERVE_BYTES = 5;
+
+
+
+
+const SHORT_STRING_LENGTH = 64;
+
+
+
+
+
+
+
+
+
+export function createProtoWriter(initialSize: number = 4096): ProtoWriter {
+	let buf = Buffer.allocUnsafe(initialSize);
+	let pos = 0;
+	const open: number[] = [];
+
+	const ensure = (bytes: number): void => {
+		if (pos + bytes <= buf.length) return;
+		const next = Buffer.allocUnsafe(Math.max(buf.length * 2, pos + bytes));
+		buf.copy(next, 0, 0, pos);
+		buf = next;
+	};
+
+	const writeVarint = (value: number): void => {
+		ensure(10);
+		let remaining = value;
+		while (remaining > 0x7f) {
+			buf[pos++] = (remaining % 128) | 0x80;
+			remaining = Math.floor(remaining / 128);
+		}
+		buf[pos++] = remaining;
+	};
+
+	return {
+		varint: (field, value) => {
+			writeVarint((field << 3) | 0);
+			writeVarint(value);
+		},
+		string: (field, value) => {
+			writeVarint((field << 3) | 2);
+			if (value.length <= SHORT_STRING_LENGTH) {
+				const start = pos;
+				writeVarint(value.length);
+				ensure(value.length);
+				let ascii = true;
+				for (let i = 0; i < value.length && ascii; i++) {
+					const code = value.charCodeAt(i);
+					buf[pos++] = code;
+					ascii = code < 0x80;
+				}
+				if (ascii) return;
+				pos = start;
+			}
+			const length = Buffer.byteLength(value);
+			writeVarint(length);
+			ensure(length);
+			pos += buf.write(value, pos, 'utf8');
+		},
+		begin: (field) => {
+			writeVarint((field << 3) | 2);
+			ensure(LENGTH_RESERVE_BYTES);
+			open.push(pos);
+			pos += LENGTH_RESERVE_BYTES;
+		},
+		end: () => {
+			const start = open.pop()!;
+			const bodyStart = start + LENGTH_RESERVE_BYTES;
+			const bodyLength = pos - bodyStart;
+			ensure(10);
+			pos = start;
+			writeVarint(bodyLength);
+			if (pos !== bodyStart) buf.copyWithin(pos, bodyStart, bodyStart + bodyLength);
+			pos += bodyLength;
+		},
+		finish: () => buf.subarray(0, pos),
+	};
+}
+
+
+
+
+export function decodeMessage(bytes: Uint8Array): ProtoField[] {
+	const fields: ProtoField[] = [];
+	let pos = 0;
+
+	const readVarint = (): bigint => {
+		let result = 0n;
+		let shift = 0n;
+		for (;;) {
+			if (pos >= bytes.length) throw new Error('Truncated protobuf varint');
+			const byte = bytes[pos++]!;
+			result |= BigInt(byte & 0x7f) << shift;
+			if ((byte & 0x80) === 0) return result;
+			shift += 7n;
+		}
+	};
+
+	const take = (length: number): Uint8Array => {
+		if (pos + length > bytes.length) throw new Error('Truncated protobuf field');
+		const value = bytes.subarray(pos, pos + length);
+		pos += length;
+		return value;
+	};
+
+	while (pos < bytes.length) {
+		const key = Number(readVarint());
+		const field = key >>> 3;
+		const wireType = key & 7;
+
+		switch (wireType) {
+			case 0:
+				fields.push({ field, wireType, value: readVarint() });
+				break;
+			case 1:
+				fields.push({ field, wireType, value: take(8) });
+				break;
+			case 2:
+				fields.push({ field, wireType, value: take(Number(readVarint())) });
+				break;
+			case 5:
+				fields.push({ field, wireType, value: take(4) });
+				break;
+			default:
+				throw new Error(`Unsupported protobuf wire type ${wireType}`);
+		}
+	}
+
+	return fields;
+}
+
+
+
+
+export function decodeString(bytes: Uint8Array): string {
+	return textDecoder.decode(bytes);
+}
@@ -0,0 +1,245 @@
+
+
+
+
+
+
+
+
+
+
+
+
+
+
+import { createHash } from 'node:crypto';
+import { getLoggingConfig } from './config.js';
+import type { BuiltinRedactionPattern, RedactionConfig, RedactionMode } from './config.js';
+import { safeStringify } from './safe-serializer.js';
+
+
+
+
+interface CompiledPath {
+	segments: string[];
+	mode: RedactionMode;
+}
+
+
+
+
+interface CompiledPattern {
+	regex: RegExp;
+	mode: RedactionMode;
+	validate?: (match: string) => boolean;
+}
+
+
+
+
+interface Redactor {
+	paths: CompiledPath[];
+	patterns: CompiledPattern[];
+	censor: string;
+	hashSalt: string;
+}
+
+
+const DEFAULT_CENSOR = '[REDACTED]';
+
+
+const PARTIAL_VISIBLE_CHARS = 4;
+
+
+
+
+function isValidLuhn(match: string): boolean {
+	const digits = match.replace(/\D/g, '');
+	if (digits.length < 13 || digits.length > 19) return false;
+	let sum = 0;
+	for (let i = 0; i < digits.length; i++) {
+		let digit = Number(digits[digits.length - 1 - i]);
+		if (i % 2 === 1) {
+			digit *= 2;
+			if (digit > 9) digit -= 9;
+		}
+		sum += digit;
+	}
+	return sum % 10 === 0;
+}
+
+
+const BUILTIN_PATTERNS: Record<BuiltinRedactionPattern, Omit<CompiledPattern, 'mode'>> = {
+	jwt: { regex: /\beyJ[\w-]+\.eyJ[\w-]+\.[\w-]*/g },
+	bearer: { regex: /(?<=\bBearer\s+)[\w\-.~+/]+=*/gi },
+	creditCard: { regex: /\b\d(?:[ -]?\d){12,18}\b/g, validate: isValidLuhn },
+	email: { regex: /[\w.%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+};
+
+
+const compiled = new WeakMap<RedactionConfig, Redactor>();
+
+
+
+
+function compile(config: RedactionConfig): Redactor {
+	let redactor = compiled.get(config);
+	if (redactor) return redactor;
+
+	const defaultMode = config.mode ?? 'mask';
+	redactor = {
+		paths: (config.paths ?? []).map((rule) => {
+			const { path, mode } = typeof rule === 'string' ? { path: rule, mode: undefined } : rule;
+			return { segments: path.toLowerCase().split('.'), mode: mode ?? defaultMode };
+		}),
+		patterns: (config.patterns ?? []).map((rule) => {
+			if (typeof rule === 'string') return { ...BUILTIN_PATTERNS[rule], mode: defaultMode };
+			const { pattern, mode } = rule instanceof RegExp ? { pattern: rule, mode: undefined } : rule;
+			const flags = pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`;
+			return { regex: new RegExp(pattern.source, flags), mode: mode ?? defaultMode };
+		}),
+		censor: config.censor ?? DEFAULT_CENSOR,
+		hashSalt: config.hashSalt ?? '',
+	};
+	compiled.set(config, redactor);
+	return redactor;
+}
+
+
+
+
+
+function matchesPath(pattern: string[], path: string[], p = 0, i = 0): boolean {
+	if (p === pattern.length) return i === path.length;
+	const segment = pattern[p]!;
+	if (segment === '**') {
+		for (let skip = i; skip <= path.length; skip++) {
+			if (matchesPath(pattern, path, p + 1, skip)) return true;
+		}
+		return false;
+	}
+	if (i === path.length) return false;
+	return (segment === '*' || segment === path[i]) && matchesPath(pattern, path, p + 1, i + 1);
+}
+
+
+
+
+function hashValue(redactor: Redactor, text: string): string {
+	const digest = createHash('sha256').update(redactor.hashSalt).update(text).digest('hex');
+	return `sha256:${digest.slice(0, 16)}`;
+}
+
+
+
+
+function maskString(redactor: Redactor, text: string, mode: RedactionMode): string {
+	switch (mode) {
+		case 'remove':
+			return '';
+		case 'hash':
+			return hashValue(redactor, text);
+		case 'partial': {
+			const visible = Math.min(PARTIAL_VISIBLE_CHARS, Math.floor(text.length / 4));
+			return '*'.repeat(text.length - visible) + text.slice(text.length - visible);
+		}
+		default:
+			return redactor.censor;
+	}
+}
+
+
+
+
+function redactText(redactor: Redactor, text: string): string {
+	let result = text;
+	for (const { regex, mode, validate } of redactor.patterns) {
+		result = result.replace(regex, (match) =>
+			validate && !validate(match) ? match : maskString(redactor, match, mode),
+		);
+	}
+	return result;
+}
+
+
+
+
+function maskValue(redactor: Redactor, value: unknown, mode: RedactionMode): unknown {
+	if (typeof value === 'string') return maskString(redactor, value, mode);
+	if (mode === 'hash') return hashValue(redactor, safeStringify(value));
+	return redactor.censor;
+}
+
+
+
+
+function isPlainContainer(value: unknown): value is Record<string, unknown> | unknown[] {
+	if (Array.isArray(value)) return true;
+	if (value === null || typeof value !== 'object') return false;
+	const proto = Object.getPrototypeOf(value);
+	return proto === Object.prototype || proto === null;
+}
+
+
+
+
+function findRule(redactor: Redactor, path: string[]): CompiledPath | undefined {
+	return redactor.paths.find((rule) => matchesPath(rule.segments, path));
+}
+
+
+
+
+function redactNode(
+	redactor: Redactor,
+	value: unknown,
+	path: string[],
+	copies: WeakMap<object, unknown>,
+): unknown {
+	if (typeof value === 'string') return redactText(redactor, value);
+	if (!isPlainContainer(value)) return value;
+
+	const existing = copies.get(value);
+	if (existing) return existing;
+
+	const entries: Array<[string, unknown]> = [];
+	const copy = Array.isArray(value) ? [] : {};
+	copies.set(value, copy);
+
+	for (const [key, item] of Object.entries(value)) {
+		const childPath = [...path, key.toLowerCase()];
+		const rule = findRule(redactor, childPath);
+		if (rule?.mode === 'remove') continue;
+		entries.push([
+			key,
+			rule ? maskValue(redactor, item, rule.mode) : redactNode(redactor, item, childPath, copies),
+		]);
+	}
+
+	if (Array.isArray(copy)) {
+		copy.push(...entries.map(([, item]) => item));
+	} else {
+		Object.assign(copy, Object.fromEntries(entries));
+	}
+	return copy;
+}
+
+
+
+
+export function redact<T>(value: T, config: RedactionConfig | undefined = getLoggingConfig().redact): T {
+	if (!config) return value;
+	return redactNode(compile(config), value, [], new WeakMap()) as T;
+}
+
+
+
+
+
+export function redactString(
+	text: string,
+	config: RedactionConfig | undefined = getLoggingConfig().redact,
+): string {
+	if (!config) return text;
+	return redactText(compile(config), text);
+}
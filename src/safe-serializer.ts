@@ -0,0 +1,217 @@
+
+
+
+
+
+
+
+
+
+
+
+
+
+import { getLoggingConfig } from './config.js';
+import type { SerializerConfig } from './config.js';
+import { serializeError } from './error-serializer.js';
+
+
+const DEFAULT_MAX_DEPTH = 10;
+
+
+const DEFAULT_MAX_KEYS = 100;
+
+
+const DEFAULT_MAX_STRING_LENGTH = 8192;
+
+
+const CIRCULAR = '[Circular]';
+
+
+
+
+interface ResolvedLimits {
+	maxDepth: number;
+	maxKeys: number;
+	maxStringLength: number;
+}
+
+
+
+
+function resolveLimits(config: SerializerConfig = {}): ResolvedLimits {
+	return {
+		maxDepth: config.maxDepth ?? DEFAULT_MAX_DEPTH,
+		maxKeys: Math.max(1, config.maxKeys ?? DEFAULT_MAX_KEYS),
+		maxStringLength: config.maxStringLength ?? DEFAULT_MAX_STRING_LENGTH,
+	};
+}
+
+
+
+
+
+
+export function truncateString(text: string, maxLength: number): string {
+	if (text.length <= maxLength) return text;
+	const marker = (removed: number) => `…[truncated ${removed} chars]`;
+	let keep = maxLength - marker(text.length).length;
+	if (keep < 0) return text.slice(0, maxLength);
+	while (keep + marker(text.length - keep).length < maxLength) keep++;
+	return `${text.slice(0, keep)}${marker(text.length - keep)}`;
+}
+
+
+
+
+function serializeEntries(
+	entries: Iterable<[string, unknown]>,
+	size: number,
+	limits: ResolvedLimits,
+	ancestors: Set<object>,
+	depth: number,
+): Record<string, unknown> {
+	const result: Record<string, unknown> = {};
+	const keep = size > limits.maxKeys ? limits.maxKeys - 1 : size;
+	let index = 0;
+	for (const [key, value] of entries) {
+		if (index++ >= keep) break;
+		const serialized = serializeValue(value, limits, ancestors, depth + 1);
+		if (serialized !== undefined) result[key] = serialized;
+	}
+	if (size > keep) result['…'] = `[${size - keep} more keys]`;
+	return result;
+}
+
+
+
+
+function serializeItems(
+	items: ArrayLike<unknown>,
+	limits: ResolvedLimits,
+	ancestors: Set<object>,
+	depth: number,
+): unknown[] {
+	const keep = items.length > limits.maxKeys ? limits.maxKeys - 1 : items.length;
+	const result: unknown[] = [];
+	for (let i = 0; i < keep; i++) {
+		result.push(serializeValue(items[i], limits, ancestors, depth + 1) ?? null);
+	}
+	if (items.length > keep) result.push(`[${items.length - keep} more items]`);
+	return result;
+}
+
+
+
+
+function serializeObject(
+	value: object,
+	limits: ResolvedLimits,
+	ancestors: Set<object>,
+	depth: number,
+): unknown {
+	if (value instanceof Date) {
+		return Number.isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString();
+	}
+	if (Buffer.isBuffer(value)) {
+		return truncateString(value.toString('base64'), limits.maxStringLength);
+	}
+	if (value instanceof Error) {
+		return serializeObject(
+			serializeError(value, { stackDepth: getLoggingConfig().errorStackDepth }),
+			limits,
+			ancestors,
+			depth,
+		);
+	}
+
+	if (depth >= limits.maxDepth) return Array.isArray(value) ? '[Array]' : '[Object]';
+
+	if (ArrayBuffer.isView(value) && !(value instanceof DataView)) {
+		const items = Array.from(value as unknown as ArrayLike<number | bigint>);
+		return serializeItems(items, limits, ancestors, depth);
+	}
+	if (Array.isArray(value)) return serializeItems(value, limits, ancestors, depth);
+	if (value instanceof Map) {
+		const entries = [...value].map(([key, item]): [string, unknown] => [
+			typeof key === 'string' ? key : String(serializeValue(key, limits, ancestors, depth + 1)),
+			item,
+		]);
+		return serializeEntries(entries, entries.length, limits, ancestors, depth);
+	}
+	if (value instanceof Set) return serializeItems([...value], limits, ancestors, depth);
+
+	const toJSON = (value as { toJSON?: unknown }).toJSON;
+	if (typeof toJSON === 'function') {
+		return serializeValue(toJSON.call(value), limits, ancestors, depth);
+	}
+
+	const keys = Object.keys(value);
+	return serializeEntries(
+		keys.map((key): [string, unknown] => [key, (value as Record<string, unknown>)[key]]),
+		keys.length,
+		limits,
+		ancestors,
+		depth,
+	);
+}
+
+
+
+
+function serializeValue(
+	value: unknown,
+	limits: ResolvedLimits,
+	ancestors: Set<object>,
+	depth: number,
+): unknown {
+	switch (typeof value) {
+		case 'string':
+			return truncateString(value, limits.maxStringLength);
+		case 'number':
+			return Number.isFinite(value) ? value : String(value);
+		case 'bigint':
+			return value.toString();
+		case 'symbol':
+		case 'function':
+			return undefined;
+		case 'object': {
+			if (value === null) return null;
+			if (ancestors.has(value)) return CIRCULAR;
+			ancestors.add(value);
+			try {
+				return serializeObject(value, limits, ancestors, depth);
+			} finally {
+				ancestors.delete(value);
+			}
+		}
+		default:
+			return value;
+	}
+}
+
+
+
+
+
+
+
+
+export function toSerializable<T>(
+	value: T,
+	config: SerializerConfig | undefined = getLoggingConfig().serializer,
+): T {
+	return serializeValue(value, resolveLimits(config), new Set(), 0) as T;
+}
+
+
+
+
+
+export function safeStringify(
+	value: unknown,
+	config: SerializerConfig | undefined = getLoggingConfig().serializer,
+	space?: number,
+): string {
+	return JSON.stringify(toSerializable(value, config), null, space) ?? String(value);
+}
@@ -0,0 +1,253 @@
+
+
+
+
+
+
+
+
+
+
+
+import { encodeVarint } from './protobuf.js';
+
+
+const BLOCK_SIZE = 1 << 16;
+
+
+const HASH_BITS = 14;
+
+
+const MISS_STEP_THRESHOLD = 32;
+
+
+
+
+function load32(input: Uint8Array, pos: number): number {
+	return (
+		(input[pos]! | (input[pos + 1]! << 8) | (input[pos + 2]! << 16) | (input[pos + 3]! << 24)) >>> 0
+	);
+}
+
+
+
+
+function hash(value: number): number {
+	return Math.imul(value, 0x1e35a7bd) >>> (32 - HASH_BITS);
+}
+
+
+
+
+interface SnappyOutput {
+	buf: Uint8Array;
+	pos: number;
+}
+
+
+
+
+function emitLiteral(out: SnappyOutput, input: Uint8Array, start: number, end: number): void {
+	const length = end - start;
+	if (length === 0) return;
+
+	const { buf } = out;
+	const n = length - 1;
+	if (n < 60) {
+		buf[out.pos++] = n << 2;
+	} else if (n < 1 << 8) {
+		buf[out.pos++] = 60 << 2;
+		buf[out.pos++] = n;
+	} else if (n < 1 << 16) {
+		buf[out.pos++] = 61 << 2;
+		buf[out.pos++] = n & 0xff;
+		buf[out.pos++] = n >>> 8;
+	} else if (n < 1 << 24) {
+		buf[out.pos++] = 62 << 2;
+		buf[out.pos++] = n & 0xff;
+		buf[out.pos++] = (n >>> 8) & 0xff;
+		buf[out.pos++] = n >>> 16;
+	} else {
+		buf[out.pos++] = 63 << 2;
+		buf[out.pos++] = n & 0xff;
+		buf[out.pos++] = (n >>> 8) & 0xff;
+		buf[out.pos++] = (n >>> 16) & 0xff;
+		buf[out.pos++] = n >>> 24;
+	}
+
+	buf.set(input.subarray(start, end), out.pos);
+	out.pos += length;
+}
+
+
+
+
+function emitCopy2(out: SnappyOutput, offset: number, length: number): void {
+	out.buf[out.pos++] = 2 | ((length - 1) << 2);
+	out.buf[out.pos++] = offset & 0xff;
+	out.buf[out.pos++] = offset >>> 8;
+}
+
+
+
+
+function emitCopy(out: SnappyOutput, offset: number, length: number): void {
+	let remaining = length;
+
+	while (remaining >= 68) {
+		emitCopy2(out, offset, 64);
+		remaining -= 64;
+	}
+	if (remaining > 64) {
+		emitCopy2(out, offset, 60);
+		remaining -= 60;
+	}
+
+	if (remaining >= 4 && remaining < 12 && offset < 2048) {
+		out.buf[out.pos++] = 1 | ((remaining - 4) << 2) | ((offset >>> 8) << 5);
+		out.buf[out.pos++] = offset & 0xff;
+	} else {
+		emitCopy2(out, offset, remaining);
+	}
+}
+
+
+
+
+function compressBlock(
+	out: SnappyOutput,
+	table: Int32Array,
+	input: Uint8Array,
+	start: number,
+	end: number,
+): void {
+	table.fill(-1);
+	let pos = start;
+	let literalStart = start;
+	let misses = MISS_STEP_THRESHOLD;
+
+	while (pos + 4 <= end) {
+		const value = load32(input, pos);
+		const slot = hash(value);
+		const candidate = table[slot]!;
+		table[slot] = pos;
+
+		if (candidate >= start && load32(input, candidate) === value) {
+			emitLiteral(out, input, literalStart, pos);
+
+			let length = 4;
+			while (pos + length < end && input[candidate + length] === input[pos + length]) {
+				length++;
+			}
+
+			emitCopy(out, pos - candidate, length);
+			pos += length;
+			literalStart = pos;
+			misses = MISS_STEP_THRESHOLD;
+		} else {
+			pos += misses++ >> 5;
+		}
+	}
+
+	emitLiteral(out, input, literalStart, end);
+}
+
+
+
+
+function maxCompressedLength(length: number): number {
+	return 32 + length + Math.floor(length / 6);
+}
+
+
+
+
+
+
+export function snappyCompress(input: Uint8Array): Uint8Array {
+	const header = encodeVarint(input.length);
+	const out: SnappyOutput = { buf: new Uint8Array(maxCompressedLength(input.length)), pos: header.length };
+	out.buf.set(header);
+	const table = new Int32Array(1 << HASH_BITS);
+	for (let start = 0; start < input.length; start += BLOCK_SIZE) {
+		compressBlock(out, table, input, start, Math.min(input.length, start + BLOCK_SIZE));
+	}
+	return out.buf.subarray(0, out.pos);
+}
+
+
+
+
+export function snappyUncompress(input: Uint8Array): Uint8Array {
+	let pos = 0;
+	let length = 0;
+	let shift = 0;
+	for (;;) {
+		if (pos >= input.length || shift > 28) throw new Error('Invalid snappy length');
+		const byte = input[pos++]!;
+		length |= (byte & 0x7f) << shift;
+		if ((byte & 0x80) === 0) break;
+		shift += 7;
+	}
+	length >>>= 0;
+
+	const out = new Uint8Array(length);
+	let outPos = 0;
+
+	const readLE = (count: number): number => {
+		if (pos + count > input.length) throw new Error('Truncated snappy input');
+		let value = 0;
+		for (let i = 0; i < count; i++) {
+			value += input[pos++]! * 2 ** (8 * i);
+		}
+		return value;
+	};
+
+	while (pos < input.length) {
+		const tag = input[pos++]!;
+		let copyLength: number;
+		let offset: number;
+
+		switch (tag & 3) {
+			case 0: {
+				let literalLength = tag >>> 2;
+				if (literalLength >= 60) {
+					literalLength = readLE(literalLength - 59);
+				}
+				literalLength += 1;
+				if (pos + literalLength > input.length || outPos + literalLength > length) {
+					throw new Error('Invalid snappy literal');
+				}
+				out.set(input.subarray(pos, pos + literalLength), outPos);
+				pos += literalLength;
+				outPos += literalLength;
+				continue;
+			}
+			case 1:
+				copyLength = ((tag >>> 2) & 7) + 4;
+				offset = ((tag >>> 5) << 8) | readLE(1);
+				break;
+			case 2:
+				copyLength = (tag >>> 2) + 1;
+				offset = readLE(2);
+				break;
+			default:
+				copyLength = (tag >>> 2) + 1;
+				offset = readLE(4);
+				break;
+		}
+
+		if (offset === 0 || offset > outPos || outPos + copyLength > length) {
+			throw new Error('Invalid snappy copy');
+		}
+		for (let i = 0; i < copyLength; i++) {
+			out[outPos] = out[outPos - offset]!;
+			outPos++;
+		}
+	}
+
+	if (outPos !== length) {
+		throw new Error('Snappy output length mismatch');
+	}
+	return out;
+}
@@ -0,0 +1,358 @@
+
+
+
+
+
+
+
+
+
+
+
+
+import dgram from 'node:dgram';
+import type { EventEmitter } from 'node:events';
+import net from 'node:net';
+import util from 'node:util';
+
+
+
+
+export interface SocketSender {
+	send: (payload: Buffer) => void;
+	flush: () => Promise<void>;
+	close: () => Promise<void>;
+}
+
+
+
+
+export interface UdpSenderOptions {
+	host: string;
+	port: number;
+	onError: (err: unknown) => void;
+}
+
+
+
+
+export interface UnixDgramSenderOptions {
+	path: string;
+	onError: (err: unknown) => void;
+
+	maxQueueSize?: number;
+}
+
+
+
+
+interface UnixDgramSocket extends EventEmitter {
+	connected?: boolean;
+	connect: (path: string) => void;
+	send: (payload: Buffer, callback: (err?: Error & { code?: number }) => void) => void;
+	close: () => void;
+}
+
+
+
+
+interface UnixDgramModule {
+	createSocket: (type: 'unix_dgram') => UnixDgramSocket;
+}
+
+let unixDgram: UnixDgramModule | undefined;
+
+try {
+	
+	unixDgram = (await import('unix-dgram' as string)) as UnixDgramModule;
+} catch {
+	
+}
+
+
+
+
+export interface StreamSenderOptions {
+	connect: net.NetConnectOpts;
+	onError: (err: unknown) => void;
+
+	onData?: (data: Buffer) => void;
+
+	reconnectDelayMs?: number;
+
+	maxReconnectDelayMs?: number;
+
+	maxQueueSize?: number;
+}
+
+
+
+
+
+
+export function createUdpSender(options: UdpSenderOptions): SocketSender {
+	let socket: dgram.Socket | null = null;
+	let pending = 0;
+	let waiters: Array<() => void> = [];
+
+	const settle = (): void => {
+		if (pending > 0) return;
+		const resolved = waiters;
+		waiters = [];
+		for (const resolve of resolved) resolve();
+	};
+
+	const flush = (): Promise<void> =>
+		pending === 0 ? Promise.resolve() : new Promise((resolve) => waiters.push(resolve));
+
+	return {
+		send: (payload) => {
+			if (!socket) {
+				socket = dgram.createSocket(net.isIPv6(options.host) ? 'udp6' : 'udp4');
+				socket.on('error', options.onError);
+				socket.unref();
+			}
+			pending++;
+			socket.send(payload, options.port, options.host, (err) => {
+				pending--;
+				if (err) options.onError(err);
+				settle();
+			});
+		},
+		flush,
+		close: async () => {
+			await flush();
+			const current = socket;
+			socket = null;
+			if (current) await new Promise<void>((resolve) => current.close(() => resolve()));
+		},
+	};
+}
+
+
+
+
+
+
+
+
+export function createStreamSender(options: StreamSenderOptions): SocketSender {
+	const baseDelay = options.reconnectDelayMs ?? 1000;
+	const maxDelay = options.maxReconnectDelayMs ?? 30000;
+	const maxQueueSize = options.maxQueueSize ?? 1000;
+
+	let socket: net.Socket | null = null;
+	let connected = false;
+	let closing = false;
+	let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+	let reconnectAttempts = 0;
+	let queue: Buffer[] = [];
+	let lastWrite: Promise<void> = Promise.resolve();
+
+	const write = (payload: Buffer): void => {
+		const current = socket!;
+		lastWrite = new Promise((resolve) => {
+			current.write(payload, (err) => {
+				if (err) options.onError(err);
+				resolve();
+			});
+		});
+	};
+
+	const scheduleReconnect = (): void => {
+		if (closing || reconnectTimer) return;
+		const delay = Math.min(maxDelay, baseDelay * 2 ** reconnectAttempts);
+		reconnectAttempts++;
+		reconnectTimer = setTimeout(() => {
+			reconnectTimer = null;
+			connect();
+		}, delay);
+		reconnectTimer.unref?.();
+	};
+
+	const connect = (): void => {
+		const current = net.createConnection(options.connect);
+		socket = current;
+		current.unref();
+		current.on('connect', () => {
+			connected = true;
+			reconnectAttempts = 0;
+			const queued = queue;
+			queue = [];
+			for (const payload of queued) write(payload);
+		});
+		current.on('error', options.onError);
+		if (options.onData) current.on('data', options.onData);
+		current.on('close', () => {
+			if (socket !== current) return;
+			socket = null;
+			connected = false;
+			scheduleReconnect();
+		});
+	};
+
+	const settleConnection = (): Promise<void> => {
+		const current = socket;
+		if (!current || connected) return Promise.resolve();
+		return new Promise((resolve) => {
+			current.once('connect', () => resolve());
+			current.once('close', () => resolve());
+		});
+	};
+
+	const flush = async (): Promise<void> => {
+		await settleConnection();
+		await lastWrite;
+	};
+
+	return {
+		send: (payload) => {
+			if (connected && socket) {
+				write(payload);
+				return;
+			}
+			queue.push(payload);
+			if (queue.length > maxQueueSize) queue.shift();
+			if (!socket && !reconnectTimer) connect();
+		},
+		flush,
+		close: async () => {
+			closing = true;
+			if (reconnectTimer) {
+				clearTimeout(reconnectTimer);
+				reconnectTimer = null;
+			}
+			await flush();
+			const current = socket;
+			socket = null;
+			connected = false;
+			queue = [];
+			if (current && !current.destroyed) {
+				await new Promise<void>((resolve) => {
+					current.once('close', () => resolve());
+					current.end();
+				});
+			}
+		},
+	};
+}
+
+
+
+
+
+function toSystemError(err: unknown, path: string): unknown {
+	const { code, syscall } = err as { code?: unknown; syscall?: string };
+	if (typeof code !== 'number' || code >= 0) return err;
+	const name = util.getSystemErrorName(code);
+	return Object.assign(new Error(`${syscall ?? 'send'} ${name} ${path}`), { code: name, errno: code, syscall, path });
+}
+
+
+
+
+
+
+
+
+
+export function createUnixDgramSender(options: UnixDgramSenderOptions): SocketSender {
+	const api = unixDgram;
+	if (!api) {
+		throw new Error('Unix datagram sockets require the optional "unix-dgram" package');
+	}
+	const maxQueueSize = options.maxQueueSize ?? 1000;
+
+	let socket: UnixDgramSocket | null = null;
+	let queue: Buffer[] = [];
+	let idleCheck: ReturnType<typeof setImmediate> | null = null;
+	let waiters: Array<() => void> = [];
+
+	const settle = (): void => {
+		if (queue.length > 0) return;
+		const resolved = waiters;
+		waiters = [];
+		for (const resolve of resolved) resolve();
+	};
+
+	const closeSocket = (): void => {
+		const current = socket;
+		socket = null;
+		if (current) current.close();
+	};
+
+	const open = (): UnixDgramSocket | null => {
+		if (socket) return socket;
+		const current = api.createSocket('unix_dgram');
+		current.on('error', (err) => options.onError(toSystemError(err, options.path)));
+		current.on('writable', drain);
+		current.connect(options.path);
+		if (!current.connected) {
+			current.close();
+			return null;
+		}
+		socket = current;
+		return current;
+	};
+
+	const write = (payload: Buffer): boolean => {
+		const current = open();
+		if (!current) return true;
+		let congested = false;
+		current.send(payload, (err) => {
+			if (!err) return;
+			if (err.message === 'congestion') {
+				congested = true;
+				return;
+			}
+			closeSocket();
+			options.onError(toSystemError(err, options.path));
+		});
+		return !congested;
+	};
+
+	const closeWhenIdle = (): void => {
+		if (idleCheck) return;
+		idleCheck = setImmediate(() => {
+			idleCheck = null;
+			if (queue.length === 0) closeSocket();
+		});
+	};
+
+	function drain(): void {
+		while (queue.length > 0) {
+			if (!write(queue[0]!)) return;
+			queue.shift();
+		}
+		settle();
+		closeWhenIdle();
+	}
+
+	return {
+		send: (payload) => {
+			if (queue.length === 0 && write(payload)) {
+				closeWhenIdle();
+				return;
+			}
+			queue.push(payload);
+			if (queue.length > maxQueueSize) queue.shift();
+		},
+		flush: () => (queue.length === 0 ? Promise.resolve() : new Promise((resolve) => waiters.push(resolve))),
+		close: async () => {
+			if (idleCheck) {
+				clearImmediate(idleCheck);
+				idleCheck = null;
+			}
+			queue = [];
+			settle();
+			closeSocket();
+		},
+	};
+}
+
+
+
+
+export function _setUnixDgram(api: UnixDgramModule | undefined): void {
+	unixDgram = api;
+}
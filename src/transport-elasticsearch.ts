@@ -0,0 +1,265 @@
+
+
+
+
+
+
+
+
+
+
+
+
+
+
+
+import { createBatcher, getRetryDelay } from './batcher.js';
+import type { Transport } from './config.js';
+import { safeStringify } from './safe-serializer.js';
+import { toLogEntry } from './transports.js';
+import type { TransportOptions } from './transports.js';
+import type { LogRecord } from './types.js';
+
+
+
+
+export type ElasticsearchAuth =
+	| { type: 'basic'; username: string; password: string }
+	| { type: 'apiKey'; apiKey: string };
+
+
+
+
+export interface ElasticsearchRetryConfig {
+	maxAttempts?: number;
+	baseDelayMs?: number;
+	maxDelayMs?: number;
+	requestTimeoutMs?: number;
+}
+
+
+
+
+export interface ElasticsearchTransportOptions extends TransportOptions {
+
+	url?: string;
+
+	index?: string | ((record: LogRecord) => string);
+
+	dataStream?: boolean;
+
+	auth?: ElasticsearchAuth;
+
+	headers?: Record<string, string>;
+
+	batchSize?: number;
+
+	maxBatchBytes?: number;
+
+	flushIntervalMs?: number;
+
+	maxQueueSize?: number;
+
+	retry?: ElasticsearchRetryConfig;
+}
+
+
+
+
+interface BulkItem {
+	action: string;
+	document: string;
+	bytes: number;
+}
+
+
+
+
+interface BulkResponseItem {
+	status: number;
+	error?: unknown;
+}
+
+
+
+
+interface BulkResult {
+	retry: BulkItem[];
+	rejected: BulkResponseItem[];
+}
+
+
+const DEFAULT_INDEX = 'logs-YYYY.MM.DD';
+
+
+const DEFAULT_DATA_STREAM = 'logs-tinyland-default';
+
+
+
+
+
+export function formatIndexName(pattern: string, timestamp: number): string {
+	const iso = new Date(timestamp).toISOString();
+	return pattern
+		.replace(/YYYY/g, iso.slice(0, 4))
+		.replace(/MM/g, iso.slice(5, 7))
+		.replace(/DD/g, iso.slice(8, 10));
+}
+
+
+
+
+
+export function toElasticsearchDocument(record: LogRecord): Record<string, unknown> {
+	const { timestamp: _timestamp, ...entry } = toLogEntry(record);
+	return {
+		'@timestamp': new Date(record.timestamp).toISOString(),
+		...entry,
+		source: record.source,
+		...(record.audit && { audit: record.audit }),
+	};
+}
+
+
+
+
+function isRetryableStatus(status: number): boolean {
+	return status === 429 || status >= 500;
+}
+
+
+
+
+function getAuthHeaders(auth: ElasticsearchAuth | undefined): Record<string, string> {
+	switch (auth?.type) {
+		case 'basic':
+			return {
+				Authorization: `Basic ${Buffer.from(`${auth.username}:${auth.password}`).toString('base64')}`,
+			};
+		case 'apiKey':
+			return { Authorization: `ApiKey ${auth.apiKey}` };
+		default:
+			return {};
+	}
+}
+
+
+
+
+
+
+
+
+
+
+
+
+
+
+
+
+
+export function elasticsearchTransport(options: ElasticsearchTransportOptions = {}): Transport {
+	const bulkUrl = `${(options.url ?? 'http://localhost:9200').replace(/\/+$/, '')}/_bulk`;
+	const operation = options.dataStream ? 'create' : 'index';
+	const retry = options.retry ?? {};
+	const maxAttempts = retry.maxAttempts ?? 3;
+
+	const resolveIndex = (record: LogRecord): string => {
+		if (typeof options.index === 'function') return options.index(record);
+		if (options.dataStream) return options.index ?? DEFAULT_DATA_STREAM;
+		return formatIndexName(options.index ?? DEFAULT_INDEX, record.timestamp);
+	};
+
+	const postBulk = async (items: BulkItem[]): Promise<BulkResult> => {
+		let response: Response;
+		try {
+			response = await fetch(bulkUrl, {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/x-ndjson',
+					...getAuthHeaders(options.auth),
+					...options.headers,
+				},
+				body: items.map((item) => `${item.action}\n${item.document}\n`).join(''),
+				signal: AbortSignal.timeout(retry.requestTimeoutMs ?? 10000),
+			});
+		} catch {
+			return { retry: items, rejected: [] };
+		}
+
+		if (isRetryableStatus(response.status)) return { retry: items, rejected: [] };
+		if (!response.ok) {
+			throw new Error(`Elasticsearch bulk request failed with status ${response.status}`);
+		}
+
+		const body = (await response.json()) as {
+			errors?: boolean;
+			items?: Array<Record<string, BulkResponseItem>>;
+		};
+		if (!body.errors) return { retry: [], rejected: [] };
+
+		const result: BulkResult = { retry: [], rejected: [] };
+		body.items?.forEach((entry, index) => {
+			const item = Object.values(entry)[0];
+			if (!item || item.status < 300) return;
+			if (isRetryableStatus(item.status)) {
+				result.retry.push(items[index]!);
+			} else {
+				result.rejected.push(item);
+			}
+		});
+		return result;
+	};
+
+	const batcher = createBatcher<BulkItem>({
+		batchSize: options.batchSize ?? 500,
+		maxBatchBytes: options.maxBatchBytes ?? 5 * 1024 * 1024,
+		flushIntervalMs: options.flushIntervalMs ?? 1000,
+		maxQueueSize: options.maxQueueSize ?? 10000,
+		sizeOf: (item) => item.bytes,
+		send: async (items) => {
+			let pending = items;
+			for (let attempt = 1; ; attempt++) {
+				const { retry: retryable, rejected } = await postBulk(pending);
+				if (rejected.length > 0) {
+					console.error(
+						`Elasticsearch rejected ${rejected.length} log documents:`,
+						rejected[0]!.error ?? rejected[0]!.status,
+					);
+				}
+				if (retryable.length === 0) return;
+				if (attempt >= maxAttempts) {
+					throw new Error(
+						`Dropped ${retryable.length} log documents after ${attempt} bulk attempts`,
+					);
+				}
+				await new Promise((resolve) =>
+					setTimeout(
+						resolve,
+						getRetryDelay(attempt, retry.baseDelayMs ?? 500, retry.maxDelayMs ?? 30000),
+					),
+				);
+				pending = retryable;
+			}
+		},
+		onError: (err) => console.error('Failed to send logs to Elasticsearch:', err),
+	});
+
+	return {
+		name: 'elasticsearch',
+		level: options.level,
+		sources: options.sources,
+		write: (record) => {
+			const action = JSON.stringify({ [operation]: { _index: resolveIndex(record) } });
+			const document = safeStringify(toElasticsearchDocument(record));
+			batcher.add({
+				action,
+				document,
+				bytes: Buffer.byteLength(action) + Buffer.byteLength(document) + 2,
+			});
+		},
+		flush: () => batcher.flush(),
+		close: () => batcher.close(),
+	};
+}
@@ -0,0 +1,223 @@
+
+
+
+
+
+
+
+
+
+
+
+
+
+import { createReadStream, createWriteStream, promises as fs } from 'node:fs';
+import path from 'node:path';
+import { pipeline } from 'node:stream/promises';
+import { createGzip } from 'node:zlib';
+import { createBatcher } from './batcher.js';
+import { getLoggingConfig } from './config.js';
+import type { Transport } from './config.js';
+import { formatLine } from './formatters.js';
+import type { LineFormat } from './formatters.js';
+import type { TransportOptions } from './transports.js';
+
+
+
+
+export interface FileTransportOptions extends TransportOptions {
+
+	dir?: string;
+
+	fileName?: string;
+
+	format?: LineFormat;
+
+	maxBytes?: number;
+
+	daily?: boolean;
+
+	compress?: boolean;
+
+	maxFiles?: number;
+
+	maxAgeDays?: number;
+
+	batchSize?: number;
+
+	flushIntervalMs?: number;
+}
+
+
+
+
+interface FileLine {
+	text: string;
+	day: string;
+}
+
+
+
+
+interface RotatedFile {
+	name: string;
+	day: string;
+	sequence: number;
+}
+
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+
+
+
+function utcDay(time: number): string {
+	return new Date(time).toISOString().slice(0, 10);
+}
+
+
+
+
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+
+
+
+async function gzipFile(file: string): Promise<void> {
+	await pipeline(createReadStream(file), createGzip(), createWriteStream(`${file}.gz`));
+	await fs.unlink(file);
+}
+
+
+
+
+
+
+
+
+
+
+
+
+
+
+export function fileTransport(options: FileTransportOptions = {}): Transport {
+	const fileName = options.fileName ?? 'app';
+	const compress = options.compress ?? true;
+	const format = options.format ?? 'json';
+	const extension = format === 'logfmt' ? 'log' : 'ndjson';
+	const rotatedPattern = new RegExp(
+		`^${escapeRegExp(fileName)}-(\\d{4}-\\d{2}-\\d{2})\\.(\\d+)\\.${extension}(\\.gz)?$`,
+	);
+
+	let currentSize = -1;
+	let currentDay = '';
+
+	const getDir = (): string => options.dir ?? getLoggingConfig().logsDir ?? process.cwd();
+	const getActiveFile = (): string => path.join(getDir(), `${fileName}.${extension}`);
+
+	const openState = async (firstDay: string): Promise<void> => {
+		await fs.mkdir(getDir(), { recursive: true });
+		try {
+			const stats = await fs.stat(getActiveFile());
+			currentSize = stats.size;
+			currentDay = utcDay(stats.mtimeMs);
+		} catch {
+			currentSize = 0;
+			currentDay = firstDay;
+		}
+	};
+
+	const listRotated = async (): Promise<RotatedFile[]> =>
+		(await fs.readdir(getDir()))
+			.map((name) => ({ name, match: rotatedPattern.exec(name) }))
+			.filter((file): file is { name: string; match: RegExpExecArray } => file.match !== null)
+			.map(({ name, match }) => ({ name, day: match[1]!, sequence: Number(match[2]) }))
+			.sort((a, b) => (a.day === b.day ? b.sequence - a.sequence : b.day.localeCompare(a.day)));
+
+	const applyRetention = async (rotated: RotatedFile[]): Promise<void> => {
+		if (options.maxFiles === undefined && options.maxAgeDays === undefined) return;
+
+		const cutoff =
+			options.maxAgeDays !== undefined ? utcDay(Date.now() - options.maxAgeDays * DAY_MS) : undefined;
+
+		for (const [index, file] of rotated.entries()) {
+			const tooMany = options.maxFiles !== undefined && index >= options.maxFiles;
+			const tooOld = cutoff !== undefined && file.day < cutoff;
+			if (tooMany || tooOld) {
+				await fs.rm(path.join(getDir(), file.name), { force: true });
+			}
+		}
+	};
+
+	const rotate = async (): Promise<void> => {
+		const existing = await listRotated();
+		const sequence =
+			Math.max(0, ...existing.filter((file) => file.day === currentDay).map((file) => file.sequence)) + 1;
+		const name = `${fileName}-${currentDay}.${sequence}.${extension}`;
+		const target = path.join(getDir(), name);
+
+		await fs.rename(getActiveFile(), target);
+		currentSize = 0;
+		if (compress) await gzipFile(target);
+		await applyRetention(await listRotated());
+	};
+
+	const writeLines = async (lines: FileLine[]): Promise<void> => {
+		if (currentSize < 0) await openState(lines[0]!.day);
+
+		let pending = '';
+		let pendingBytes = 0;
+		const writePending = async (): Promise<void> => {
+			if (!pending) return;
+			await fs.appendFile(getActiveFile(), pending, 'utf8');
+			currentSize += pendingBytes;
+			pending = '';
+			pendingBytes = 0;
+		};
+
+		for (const line of lines) {
+			const text = `${line.text}\n`;
+			const bytes = Buffer.byteLength(text);
+			const size = currentSize + pendingBytes;
+			const dayChanged = options.daily === true && line.day !== currentDay;
+			const sizeExceeded =
+				options.maxBytes !== undefined && size > 0 && size + bytes > options.maxBytes;
+
+			if (size > 0 && (dayChanged || sizeExceeded)) {
+				await writePending();
+				await rotate();
+			}
+			if (currentSize === 0 && pendingBytes === 0) currentDay = line.day;
+			pending += text;
+			pendingBytes += bytes;
+		}
+
+		await writePending();
+	};
+
+	const batcher = createBatcher<FileLine>({
+		batchSize: options.batchSize ?? 1000,
+		flushIntervalMs: options.flushIntervalMs ?? 1000,
+		send: async (lines) => {
+			try {
+				await writeLines(lines);
+			} catch (err) {
+				currentSize = -1;
+				throw err;
+			}
+		},
+		onError: (err) => console.error('Failed to write log file:', err),
+	});
+
+	return {
+		name: 'file',
+		level: options.level,
+		sources: options.sources,
+		write: (record) => batcher.add({ text: formatLine(record, format), day: utcDay(record.timestamp) }),
+		flush: () => batcher.flush(),
+		close: () => batcher.close(),
+	};
+}
@@ -0,0 +1,224 @@
+
+
+
+
+
+
+
+
+
+
+
+
+
+import { randomBytes } from 'node:crypto';
+import { createBatcher } from './batcher.js';
+import type { Transport } from './config.js';
+import { decodeMsgpack, encodeMsgpack, MsgpackExt } from './msgpack.js';
+import { createStreamSender } from './socket-sender.js';
+import { toLogEntry } from './transports.js';
+import type { TransportOptions } from './transports.js';
+import type { LogRecord } from './types.js';
+
+
+
+
+export interface FluentdTransportOptions extends TransportOptions {
+
+	protocol?: 'tcp' | 'unix';
+
+	host?: string;
+
+	port?: number;
+
+	path?: string;
+
+	tagPrefix?: string;
+
+	requireAck?: boolean;
+
+	ackTimeoutMs?: number;
+
+	maxAttempts?: number;
+
+	batchSize?: number;
+
+	flushIntervalMs?: number;
+
+	reconnectDelayMs?: number;
+
+	maxReconnectDelayMs?: number;
+}
+
+
+
+
+interface ForwardEntry {
+	tag: string;
+	entry: Buffer;
+}
+
+
+
+
+
+export function toForwardTag(record: LogRecord, prefix = 'app'): string {
+	const component = record.context.component;
+	if (typeof component !== 'string' || component.length === 0) return prefix;
+	const suffix = component.replace(/[^\w.-]+/g, '_').replace(/^\.+|\.+$/g, '');
+	return suffix ? `${prefix}.${suffix}` : prefix;
+}
+
+
+
+
+export function toEventTime(timestamp: number): MsgpackExt {
+	const data = Buffer.alloc(8);
+	data.writeUInt32BE(Math.floor(timestamp / 1000), 0);
+	data.writeUInt32BE(Math.trunc((timestamp % 1000) * 1000000), 4);
+	return new MsgpackExt(0, data);
+}
+
+
+
+
+export function toForwardRecord(record: LogRecord): Record<string, unknown> {
+	const { timestamp: _timestamp, ...entry } = toLogEntry(record);
+	return {
+		...entry,
+		source: record.source,
+		...(record.audit && { audit: record.audit }),
+	};
+}
+
+
+
+
+
+export function encodePackedForward(tag: string, entries: Buffer[], chunk?: string): Buffer {
+	return encodeMsgpack([tag, Buffer.concat(entries), { size: entries.length, ...(chunk && { chunk }) }]);
+}
+
+
+
+
+function groupByTag(entries: ForwardEntry[]): Map<string, Buffer[]> {
+	const groups = new Map<string, Buffer[]>();
+	for (const { tag, entry } of entries) {
+		const group = groups.get(tag);
+		if (group) group.push(entry);
+		else groups.set(tag, [entry]);
+	}
+	return groups;
+}
+
+
+
+
+
+
+
+
+
+
+
+
+
+
+
+
+export function fluentdTransport(options: FluentdTransportOptions = {}): Transport {
+	const tagPrefix = options.tagPrefix ?? 'app';
+	const ackTimeoutMs = options.ackTimeoutMs ?? 5000;
+	const maxAttempts = options.maxAttempts ?? 3;
+	const pendingAcks = new Map<string, () => void>();
+	let received = Buffer.alloc(0);
+
+	const onData = (data: Buffer): void => {
+		received = Buffer.concat([received, data]);
+		while (received.length > 0) {
+			let decoded;
+			try {
+				decoded = decodeMsgpack(received);
+			} catch (err) {
+				if (err instanceof RangeError) return;
+				received = Buffer.alloc(0);
+				console.error('Failed to decode Fluentd ack:', err);
+				return;
+			}
+			received = received.subarray(decoded.offset);
+			const ack = (decoded.value as { ack?: unknown } | null)?.ack;
+			if (typeof ack === 'string') {
+				pendingAcks.get(ack)?.();
+				pendingAcks.delete(ack);
+			}
+		}
+	};
+
+	const sender = createStreamSender({
+		connect:
+			options.protocol === 'unix'
+				? { path: options.path ?? '/var/run/fluent/fluent.sock' }
+				: { host: options.host ?? 'localhost', port: options.port ?? 24224 },
+		onError: (err) => console.error('Failed to send logs to Fluentd:', err),
+		onData,
+		reconnectDelayMs: options.reconnectDelayMs,
+		maxReconnectDelayMs: options.maxReconnectDelayMs,
+	});
+
+	const waitForAck = (chunk: string): Promise<boolean> =>
+		new Promise((resolve) => {
+			const timer = setTimeout(() => {
+				pendingAcks.delete(chunk);
+				resolve(false);
+			}, ackTimeoutMs);
+			pendingAcks.set(chunk, () => {
+				clearTimeout(timer);
+				resolve(true);
+			});
+		});
+
+	const sendWithAck = async (tag: string, entries: Buffer[]): Promise<void> => {
+		const chunk = randomBytes(16).toString('base64');
+		const message = encodePackedForward(tag, entries, chunk);
+		for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+			const acked = waitForAck(chunk);
+			sender.send(message);
+			if (await acked) return;
+		}
+		throw new Error(`No ack for ${entries.length} entries tagged "${tag}" after ${maxAttempts} attempts`);
+	};
+
+	const batcher = createBatcher<ForwardEntry>({
+		batchSize: options.batchSize ?? 100,
+		flushIntervalMs: options.flushIntervalMs ?? 1000,
+		send: async (entries) => {
+			for (const [tag, group] of groupByTag(entries)) {
+				if (options.requireAck) {
+					await sendWithAck(tag, group);
+				} else {
+					sender.send(encodePackedForward(tag, group));
+				}
+			}
+			await sender.flush();
+		},
+		onError: (err) => console.error('Failed to send logs to Fluentd:', err),
+	});
+
+	return {
+		name: 'fluentd',
+		level: options.level,
+		sources: options.sources,
+		write: (record) => {
+			batcher.add({
+				tag: toForwardTag(record, tagPrefix),
+				entry: encodeMsgpack([toEventTime(record.timestamp), toForwardRecord(record)]),
+			});
+		},
+		flush: () => batcher.flush(),
+		close: async () => {
+			await batcher.close();
+			await sender.close();
+		},
+	};
+}
@@ -0,0 +1,232 @@
+
+
+
+
+
+
+
+
+
+
+
+
+
+import { randomBytes } from 'node:crypto';
+import os from 'node:os';
+import { gzipSync } from 'node:zlib';
+import type { Transport } from './config.js';
+import { normalizeLevel } from './levels.js';
+import { safeStringify } from './safe-serializer.js';
+import { createStreamSender, createUdpSender } from './socket-sender.js';
+import { SYSLOG_SEVERITY } from './transport-syslog.js';
+import type { TransportOptions } from './transports.js';
+import type { LogRecord } from './types.js';
+
+
+
+
+export interface GelfTransportOptions extends TransportOptions {
+
+	protocol?: 'udp' | 'tcp';
+
+	host?: string;
+
+	port?: number;
+
+	hostname?: string;
+
+	compression?: 'gzip' | 'none';
+
+	maxChunkSize?: number;
+
+	fields?: Record<string, string | number>;
+
+	reconnectDelayMs?: number;
+
+	maxReconnectDelayMs?: number;
+
+	maxQueueSize?: number;
+}
+
+
+
+
+export type GelfMessage = {
+	version: '1.1';
+	host: string;
+	short_message: string;
+	timestamp: number;
+	level: number;
+} & Record<`_${string}`, string | number>;
+
+
+const GELF_CHUNK_MAGIC = Buffer.from([0x1e, 0x0f]);
+
+
+const GELF_CHUNK_HEADER_BYTES = 12;
+
+
+const GELF_MAX_CHUNKS = 128;
+
+
+const NOTICE_SEVERITY = 5;
+
+
+const AUDIT_FIELDS = [
+	'id',
+	'admin_user_id',
+	'admin_email',
+	'resource_type',
+	'resource_id',
+	'ip_address',
+	'user_agent',
+] as const;
+
+
+
+
+
+function fieldName(key: string): `_${string}` {
+	const name = key.replace(/[^\w.-]/g, '_');
+	return name === 'id' ? '_ctx_id' : `_${name}`;
+}
+
+
+
+
+function fieldValue(value: unknown): string | number {
+	if (typeof value === 'number' && Number.isFinite(value)) return value;
+	if (typeof value === 'string') return value;
+	if (value instanceof Date) return value.toISOString();
+	return safeStringify(value);
+}
+
+
+
+
+
+
+
+
+export function toGelfMessage(
+	record: LogRecord,
+	hostname: string = os.hostname(),
+	fields: Record<string, string | number> = {},
+): GelfMessage {
+	const level = normalizeLevel(record.level);
+	const message: GelfMessage = {
+		version: '1.1',
+		host: hostname,
+		short_message: record.message || '-',
+		timestamp: record.timestamp / 1000,
+		level: level ? SYSLOG_SEVERITY[level] : NOTICE_SEVERITY,
+	};
+
+	const additional: Record<string, unknown> = {
+		...fields,
+		...record.context,
+		...record.metadata,
+		log_source: record.source,
+	};
+	if (record.traceId) additional.trace_id = record.traceId;
+	if (record.spanId) additional.span_id = record.spanId;
+	if (record.audit) {
+		for (const key of AUDIT_FIELDS) {
+			additional[key === 'id' ? 'audit_id' : key] = record.audit[key];
+		}
+	}
+
+	for (const [key, value] of Object.entries(additional)) {
+		if (value === undefined || value === null || typeof value === 'function') continue;
+		message[fieldName(key)] = fieldValue(value);
+	}
+	return message;
+}
+
+
+
+
+
+
+
+export function chunkGelfPayload(payload: Buffer, maxChunkSize: number): Buffer[] {
+	if (payload.length <= maxChunkSize) return [payload];
+
+	const dataSize = maxChunkSize - GELF_CHUNK_HEADER_BYTES;
+	const count = Math.ceil(payload.length / dataSize);
+	if (count > GELF_MAX_CHUNKS) {
+		throw new Error(`GELF message needs ${count} chunks, more than the maximum of ${GELF_MAX_CHUNKS}`);
+	}
+
+	const messageId = randomBytes(8);
+	const chunks: Buffer[] = [];
+	for (let i = 0; i < count; i++) {
+		chunks.push(
+			Buffer.concat([
+				GELF_CHUNK_MAGIC,
+				messageId,
+				Buffer.from([i, count]),
+				payload.subarray(i * dataSize, (i + 1) * dataSize),
+			]),
+		);
+	}
+	return chunks;
+}
+
+
+
+
+function reportGelfError(err: unknown): void {
+	console.error('Failed to send GELF message:', err);
+}
+
+
+
+
+
+
+
+
+
+
+
+
+export function gelfTransport(options: GelfTransportOptions = {}): Transport {
+	const protocol = options.protocol ?? 'udp';
+	const host = options.host ?? 'localhost';
+	const port = options.port ?? 12201;
+	const hostname = options.hostname ?? os.hostname();
+	const maxChunkSize = options.maxChunkSize ?? 1420;
+
+	const sender =
+		protocol === 'udp'
+			? createUdpSender({ host, port, onError: reportGelfError })
+			: createStreamSender({
+					connect: { host, port },
+					onError: reportGelfError,
+					reconnectDelayMs: options.reconnectDelayMs,
+					maxReconnectDelayMs: options.maxReconnectDelayMs,
+					maxQueueSize: options.maxQueueSize,
+				});
+
+	return {
+		name: 'gelf',
+		level: options.level,
+		sources: options.sources,
+		write: (record) => {
+			const json = safeStringify(toGelfMessage(record, hostname, options.fields));
+			if (protocol === 'tcp') {
+				sender.send(Buffer.from(`${json}\0`, 'utf8'));
+				return;
+			}
+
+			const payload =
+				options.compression === 'gzip' ? gzipSync(json) : Buffer.from(json, 'utf8');
+			for (const chunk of chunkGelfPayload(payload, maxChunkSize)) {
+				sender.send(chunk);
+			}
+		},
+		flush: () => sender.flush(),
+		close: () => sender.close(),
+	};
+}
@@ -0,0 +1,327 @@
+
+
+
+
+
+
+
+
+
+
+
+
+import { createBatcher } from './batcher.js';
+import { getLoggingConfig } from './config.js';
+import type { Transport } from './config.js';
+import { normalizeLevel } from './levels.js';
+import {
+	bytesField,
+	concatBytes,
+	doubleField,
+	fixed64Field,
+	stringField,
+	varintField,
+} from './protobuf.js';
+import type { TransportOptions } from './transports.js';
+import type { LogLevel, LogRecord } from './types.js';
+
+
+
+
+export interface OtlpTransportOptions extends TransportOptions {
+
+	url?: string;
+
+	protocol?: 'json' | 'protobuf';
+
+	headers?: Record<string, string>;
+
+	resource?: Record<string, unknown>;
+
+	scopeName?: string;
+
+	batchSize?: number;
+
+	flushIntervalMs?: number;
+
+	maxQueueSize?: number;
+
+	requestTimeoutMs?: number;
+}
+
+
+
+
+export const OTLP_SEVERITY_NUMBER: Record<LogLevel, number> = {
+	debug: 5,
+	info: 9,
+	warn: 13,
+	error: 17,
+};
+
+
+
+
+type OtlpAnyValue =
+	| { stringValue: string }
+	| { boolValue: boolean }
+	| { intValue: string }
+	| { doubleValue: number }
+	| { arrayValue: { values: OtlpAnyValue[] } }
+	| { kvlistValue: { values: OtlpKeyValue[] } };
+
+
+
+
+interface OtlpKeyValue {
+	key: string;
+	value: OtlpAnyValue;
+}
+
+
+
+
+interface OtlpLogRecord {
+	timeUnixNano: string;
+	observedTimeUnixNano: string;
+	severityNumber: number;
+	severityText: string;
+	body: OtlpAnyValue;
+	attributes: OtlpKeyValue[];
+	traceId?: string;
+	spanId?: string;
+}
+
+
+const TRACE_ID_PATTERN = /^[0-9a-f]{32}$/i;
+
+
+const SPAN_ID_PATTERN = /^[0-9a-f]{16}$/i;
+
+
+const TRACE_METADATA_KEYS = ['trace_id', 'span_id'];
+
+
+
+
+
+export function toAnyValue(value: unknown): OtlpAnyValue | undefined {
+	if (value === undefined || value === null) return undefined;
+	if (typeof value === 'string') return { stringValue: value };
+	if (typeof value === 'boolean') return { boolValue: value };
+	if (typeof value === 'bigint') return { intValue: value.toString() };
+	if (typeof value === 'number') {
+		return Number.isSafeInteger(value) ? { intValue: value.toString() } : { doubleValue: value };
+	}
+	if (value instanceof Date) return { stringValue: value.toISOString() };
+	if (Array.isArray(value)) {
+		return {
+			arrayValue: {
+				values: value
+					.map((item) => toAnyValue(item))
+					.filter((item): item is OtlpAnyValue => item !== undefined),
+			},
+		};
+	}
+	if (typeof value === 'object') {
+		return { kvlistValue: { values: toKeyValues(value as Record<string, unknown>) } };
+	}
+	return { stringValue: String(value) };
+}
+
+
+
+
+function toKeyValues(values: Record<string, unknown>): OtlpKeyValue[] {
+	const result: OtlpKeyValue[] = [];
+	for (const [key, raw] of Object.entries(values)) {
+		const value = toAnyValue(raw);
+		if (value) result.push({ key, value });
+	}
+	return result;
+}
+
+
+
+
+
+function msToNanos(ms: number): string {
+	return (BigInt(Math.trunc(ms)) * 1000000n).toString();
+}
+
+
+
+
+
+
+
+export function toOtlpLogRecord(record: LogRecord, observedAt: number = Date.now()): OtlpLogRecord {
+	const level = normalizeLevel(record.level);
+	const attributes: Record<string, unknown> = { ...record.context };
+
+	for (const [key, value] of Object.entries(record.metadata ?? {})) {
+		if (!TRACE_METADATA_KEYS.includes(key)) attributes[key] = value;
+	}
+	attributes['log.source'] = record.source;
+
+	const otlpRecord: OtlpLogRecord = {
+		timeUnixNano: msToNanos(record.timestamp),
+		observedTimeUnixNano: msToNanos(observedAt),
+		severityNumber: level ? OTLP_SEVERITY_NUMBER[level] : 0,
+		severityText: record.level.toUpperCase(),
+		body: { stringValue: record.message },
+		attributes: [],
+	};
+
+	if (record.traceId && TRACE_ID_PATTERN.test(record.traceId)) {
+		otlpRecord.traceId = record.traceId.toLowerCase();
+	} else if (record.traceId) {
+		attributes.trace_id = record.traceId;
+	}
+	if (record.spanId && SPAN_ID_PATTERN.test(record.spanId)) {
+		otlpRecord.spanId = record.spanId.toLowerCase();
+	} else if (record.spanId) {
+		attributes.span_id = record.spanId;
+	}
+
+	otlpRecord.attributes = toKeyValues(attributes);
+	return otlpRecord;
+}
+
+
+
+
+function resourceAttributes(options: OtlpTransportOptions): Record<string, unknown> {
+	return {
+		'service.name': getLoggingConfig().serviceName ?? 'unknown_service',
+		...(getLoggingConfig().nodeEnv && { 'deployment.environment': getLoggingConfig().nodeEnv }),
+		...options.resource,
+	};
+}
+
+
+
+
+export function encodeOtlpJson(
+	records: OtlpLogRecord[],
+	resource: Record<string, unknown>,
+	scopeName: string,
+): string {
+	return JSON.stringify({
+		resourceLogs: [
+			{
+				resource: { attributes: toKeyValues(resource) },
+				scopeLogs: [{ scope: { name: scopeName }, logRecords: records }],
+			},
+		],
+	});
+}
+
+
+
+
+function encodeAnyValueProto(value: OtlpAnyValue): Uint8Array {
+	if ('stringValue' in value) return stringField(1, value.stringValue);
+	if ('boolValue' in value) return varintField(2, value.boolValue ? 1 : 0);
+	if ('intValue' in value) return varintField(3, BigInt(value.intValue));
+	if ('doubleValue' in value) return doubleField(4, value.doubleValue);
+	if ('arrayValue' in value) {
+		return bytesField(
+			5,
+			concatBytes(value.arrayValue.values.map((item) => bytesField(1, encodeAnyValueProto(item)))),
+		);
+	}
+	return bytesField(
+		6,
+		concatBytes(value.kvlistValue.values.map((kv) => bytesField(1, encodeKeyValueProto(kv)))),
+	);
+}
+
+
+
+
+function encodeKeyValueProto(kv: OtlpKeyValue): Uint8Array {
+	return concatBytes([stringField(1, kv.key), bytesField(2, encodeAnyValueProto(kv.value))]);
+}
+
+
+
+
+function encodeLogRecordProto(record: OtlpLogRecord): Uint8Array {
+	return concatBytes([
+		fixed64Field(1, BigInt(record.timeUnixNano)),
+		varintField(2, record.severityNumber),
+		stringField(3, record.severityText),
+		bytesField(5, encodeAnyValueProto(record.body)),
+		...record.attributes.map((kv) => bytesField(6, encodeKeyValueProto(kv))),
+		...(record.traceId ? [bytesField(9, Buffer.from(record.traceId, 'hex'))] : []),
+		...(record.spanId ? [bytesField(10, Buffer.from(record.spanId, 'hex'))] : []),
+		fixed64Field(11, BigInt(record.observedTimeUnixNano)),
+	]);
+}
+
+
+
+
+export function encodeOtlpProtobuf(
+	records: OtlpLogRecord[],
+	resource: Record<string, unknown>,
+	scopeName: string,
+): Uint8Array {
+	const resourceBytes = concatBytes(
+		toKeyValues(resource).map((kv) => bytesField(1, encodeKeyValueProto(kv))),
+	);
+	const scopeLogs = concatBytes([
+		bytesField(1, stringField(1, scopeName)),
+		...records.map((record) => bytesField(2, encodeLogRecordProto(record))),
+	]);
+	return bytesField(1, concatBytes([bytesField(1, resourceBytes), bytesField(2, scopeLogs)]));
+}
+
+
+
+
+
+
+
+
+
+
+export function otlpTransport(options: OtlpTransportOptions = {}): Transport {
+	const url = options.url ?? 'http://localhost:4318/v1/logs';
+	const protobuf = options.protocol === 'protobuf';
+	const scopeName = options.scopeName ?? '@tummycrypt/tinyland-logging';
+
+	const batcher = createBatcher<OtlpLogRecord>({
+		batchSize: options.batchSize ?? 512,
+		flushIntervalMs: options.flushIntervalMs ?? 1000,
+		maxQueueSize: options.maxQueueSize ?? 10000,
+		send: async (records) => {
+			const resource = resourceAttributes(options);
+			const response = await fetch(url, {
+				method: 'POST',
+				headers: {
+					'Content-Type': protobuf ? 'application/x-protobuf' : 'application/json',
+					...options.headers,
+				},
+				body: protobuf
+					? encodeOtlpProtobuf(records, resource, scopeName)
+					: encodeOtlpJson(records, resource, scopeName),
+				signal: AbortSignal.timeout(options.requestTimeoutMs ?? 10000),
+			});
+			if (!response.ok) {
+				throw new Error(`OTLP export failed with status ${response.status}`);
+			}
+		},
+		onError: (err) => console.error('Failed to export logs to OTLP collector:', err),
+	});
+
+	return {
+		name: 'otlp',
+		level: options.level,
+		sources: options.sources,
+		write: (record) => batcher.add(toOtlpLogRecord(record)),
+		flush: () => batcher.flush(),
+		close: () => batcher.close(),
+	};
+}
@@ -0,0 +1,231 @@
+
+
+
+
+
+
+
+
+
+
+
+
+
+
+
+import { randomUUID } from 'node:crypto';
+import os from 'node:os';
+import { createBatcher, getRetryDelay } from './batcher.js';
+import type { Transport } from './config.js';
+import { safeStringify } from './safe-serializer.js';
+import { toLogEntry } from './transports.js';
+import type { TransportOptions } from './transports.js';
+import type { LogRecord } from './types.js';
+
+
+
+
+export interface SplunkAckConfig {
+
+	channel?: string;
+
+	pollIntervalMs?: number;
+
+	timeoutMs?: number;
+}
+
+
+
+
+export interface SplunkTransportOptions extends TransportOptions {
+
+	url?: string;
+
+	token: string;
+
+	index?: string;
+
+	auditIndex?: string;
+
+	sourcetype?: string;
+
+	source?: string;
+
+	host?: string;
+
+	ack?: boolean | SplunkAckConfig;
+
+	batchSize?: number;
+
+	maxBatchBytes?: number;
+
+	flushIntervalMs?: number;
+
+	maxQueueSize?: number;
+
+	maxAttempts?: number;
+
+	baseDelayMs?: number;
+
+	requestTimeoutMs?: number;
+}
+
+
+
+
+export interface SplunkEvent {
+	time: number;
+	host: string;
+	source?: string;
+	sourcetype?: string;
+	index?: string;
+	event: Record<string, unknown>;
+}
+
+
+
+
+interface SplunkResponse {
+	text?: string;
+	code?: number;
+	ackId?: number;
+	acks?: Record<string, boolean>;
+}
+
+
+
+
+type SplunkResult =
+	| { ok: true; body: SplunkResponse }
+	| { ok: false; retryable: boolean; status?: number; error: unknown };
+
+
+
+
+function isRetryableStatus(status: number): boolean {
+	return status === 429 || status >= 500;
+}
+
+
+
+
+
+
+export function toSplunkEvent(
+	record: LogRecord,
+	options: Omit<SplunkTransportOptions, 'token'> = {},
+): SplunkEvent {
+	const { timestamp: _timestamp, ...entry } = toLogEntry(record);
+	const index = record.source === 'audit' ? (options.auditIndex ?? options.index) : options.index;
+	return {
+		time: record.timestamp / 1000,
+		host: options.host ?? os.hostname(),
+		...(options.source !== undefined && { source: options.source }),
+		sourcetype: options.sourcetype ?? '_json',
+		...(index !== undefined && { index }),
+		event: {
+			...entry,
+			source: record.source,
+			...(record.audit && { audit: record.audit }),
+		},
+	};
+}
+
+
+
+
+
+
+
+
+
+
+
+
+
+
+
+
+
+export function splunkTransport(options: SplunkTransportOptions): Transport {
+	const baseUrl = (options.url ?? 'https://localhost:8088').replace(/\/+$/, '');
+	const ackConfig: SplunkAckConfig | undefined =
+		options.ack === true ? {} : options.ack === false ? undefined : options.ack;
+	const channel = ackConfig ? (ackConfig.channel ?? randomUUID()) : undefined;
+	const maxAttempts = options.maxAttempts ?? 3;
+	const baseDelayMs = options.baseDelayMs ?? 500;
+
+	const request = async (endpoint: string, body: string): Promise<SplunkResult> => {
+		try {
+			const response = await fetch(`${baseUrl}${endpoint}`, {
+				method: 'POST',
+				headers: {
+					Authorization: `Splunk ${options.token}`,
+					'Content-Type': 'application/json',
+					...(channel && { 'X-Splunk-Request-Channel': channel }),
+				},
+				body,
+				signal: AbortSignal.timeout(options.requestTimeoutMs ?? 10000),
+			});
+			const parsed = ((await response.json().catch(() => undefined)) ?? {}) as SplunkResponse;
+			if (response.ok) return { ok: true, body: parsed };
+			return {
+				ok: false,
+				retryable: isRetryableStatus(response.status),
+				status: response.status,
+				error: new Error(
+					`Splunk HEC request failed with status ${response.status}${parsed.text ? `: ${parsed.text}` : ''}`,
+				),
+			};
+		} catch (error) {
+			return { ok: false, retryable: true, error };
+		}
+	};
+
+	const waitForAck = async (ackId: number): Promise<SplunkResult> => {
+		const deadline = Date.now() + (ackConfig?.timeoutMs ?? 30000);
+		const pollIntervalMs = ackConfig?.pollIntervalMs ?? 1000;
+		while (Date.now() < deadline) {
+			await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+			const result = await request('/services/collector/ack', JSON.stringify({ acks: [ackId] }));
+			if (!result.ok || result.body.acks?.[String(ackId)]) return result;
+		}
+		return {
+			ok: false,
+			retryable: true,
+			error: new Error(`Splunk HEC ack ${ackId} timed out on channel ${channel}`),
+		};
+	};
+
+	const sendEvents = async (events: string[]): Promise<void> => {
+		const body = events.join('');
+		for (let attempt = 1; ; attempt++) {
+			let result = await request('/services/collector/event', body);
+			if (result.ok && ackConfig && result.body.ackId !== undefined) {
+				result = await waitForAck(result.body.ackId);
+			}
+			if (result.ok) return;
+			if (!result.retryable || attempt >= maxAttempts) throw result.error;
+			await new Promise((resolve) => setTimeout(resolve, getRetryDelay(attempt, baseDelayMs, 30000)));
+		}
+	};
+
+	const batcher = createBatcher<string>({
+		batchSize: options.batchSize ?? 100,
+		maxBatchBytes: options.maxBatchBytes ?? 1024 * 1024,
+		flushIntervalMs: options.flushIntervalMs ?? 1000,
+		maxQueueSize: options.maxQueueSize ?? 10000,
+		sizeOf: (event) => Buffer.byteLength(event),
+		send: sendEvents,
+		onError: (err) => console.error('Failed to send logs to Splunk HEC:', err),
+	});
+
+	return {
+		name: 'splunk',
+		level: options.level,
+		sources: options.sources,
+		write: (record) => batcher.add(safeStringify(toSplunkEvent(record, options))),
+		flush: () => batcher.flush(),
+		close: () => batcher.close(),
+	};
+}
@@ -0,0 +1,284 @@
+
+
+
+
+
+
+
+
+
+
+
+
+
+import os from 'node:os';
+import { getLoggingConfig } from './config.js';
+import type { Transport } from './config.js';
+import { normalizeLevel } from './levels.js';
+import { safeStringify } from './safe-serializer.js';
+import { createStreamSender, createUdpSender, createUnixDgramSender } from './socket-sender.js';
+import type { SocketSender } from './socket-sender.js';
+import type { TransportOptions } from './transports.js';
+import type { LogLevel, LogRecord } from './types.js';
+
+
+
+
+export type SyslogProtocol = 'udp' | 'tcp' | 'unix-dgram' | 'unix-stream';
+
+
+
+
+
+export type SyslogFraming = 'octet-counting' | 'newline';
+
+
+
+
+export const SYSLOG_FACILITIES = {
+	kern: 0,
+	user: 1,
+	mail: 2,
+	daemon: 3,
+	auth: 4,
+	syslog: 5,
+	lpr: 6,
+	news: 7,
+	uucp: 8,
+	cron: 9,
+	authpriv: 10,
+	ftp: 11,
+	local0: 16,
+	local1: 17,
+	local2: 18,
+	local3: 19,
+	local4: 20,
+	local5: 21,
+	local6: 22,
+	local7: 23,
+} as const;
+
+export type SyslogFacility = keyof typeof SYSLOG_FACILITIES;
+
+
+
+
+export const SYSLOG_SEVERITY: Record<LogLevel, number> = {
+	debug: 7,
+	info: 6,
+	warn: 4,
+	error: 3,
+};
+
+
+const NOTICE_SEVERITY = 5;
+
+
+
+
+export interface SyslogTransportOptions extends TransportOptions {
+
+	protocol?: SyslogProtocol;
+
+	host?: string;
+
+	port?: number;
+
+	path?: string;
+
+	framing?: SyslogFraming;
+
+	facility?: SyslogFacility | number;
+
+	appName?: string;
+
+	hostname?: string;
+
+	sdId?: string;
+
+	reconnectDelayMs?: number;
+
+	maxReconnectDelayMs?: number;
+
+	maxQueueSize?: number;
+}
+
+
+
+
+export interface SyslogFormatOptions {
+	facility: number;
+	appName: string;
+	hostname: string;
+	procId: string;
+	sdId: string;
+}
+
+
+
+
+
+function headerField(value: string | undefined, maxLength: number): string {
+	const cleaned = (value ?? '').replace(/[^\x21-\x7e]/g, '').slice(0, maxLength);
+	return cleaned.length > 0 ? cleaned : '-';
+}
+
+
+
+
+
+function sdName(name: string): string {
+	return name.replace(/[^\x21-\x7e]|[= \]"]/g, '_').slice(0, 32);
+}
+
+
+
+
+function sdValue(value: unknown): string {
+	const text = typeof value === 'string' ? value : safeStringify(value);
+	return text.replace(/[\\"\]]/g, (char) => `\\${char}`);
+}
+
+
+
+
+
+function structuredData(record: LogRecord, sdId: string): string {
+	const params: Record<string, unknown> = { ...record.context, ...record.metadata };
+	if (record.traceId) params.trace_id = record.traceId;
+	if (record.spanId) params.span_id = record.spanId;
+
+	const rendered = Object.entries(params)
+		.filter(([, value]) => value !== undefined && typeof value !== 'function')
+		.map(([key, value]) => `${sdName(key)}="${sdValue(value)}"`);
+
+	return rendered.length > 0 ? `[${sdName(sdId)} ${rendered.join(' ')}]` : '-';
+}
+
+
+
+
+
+
+export function formatSyslogMessage(record: LogRecord, options: SyslogFormatOptions): string {
+	const level = normalizeLevel(record.level);
+	const severity = level ? SYSLOG_SEVERITY[level] : NOTICE_SEVERITY;
+	const pri = options.facility * 8 + severity;
+	const msgId = typeof record.context.component === 'string' ? record.context.component : undefined;
+
+	return [
+		`<${pri}>1`,
+		new Date(record.timestamp).toISOString(),
+		headerField(options.hostname, 255),
+		headerField(options.appName, 48),
+		headerField(options.procId, 128),
+		headerField(msgId, 32),
+		structuredData(record, options.sdId),
+		record.message,
+	].join(' ');
+}
+
+
+
+
+export function frameSyslogMessage(message: string, framing: SyslogFraming): Buffer {
+	if (framing === 'newline') {
+		return Buffer.from(`${message.replace(/\n/g, ' ')}\n`, 'utf8');
+	}
+	const body = Buffer.from(message, 'utf8');
+	return Buffer.concat([Buffer.from(`${body.length} `, 'ascii'), body]);
+}
+
+
+
+
+function reportSyslogError(err: unknown): void {
+	console.error('Failed to send syslog message:', err);
+}
+
+
+
+
+
+function reportUnixStreamError(path: string): (err: unknown) => void {
+	return (err) => {
+		if ((err as NodeJS.ErrnoException).code === 'EPROTOTYPE') {
+			console.error(
+				`Failed to send syslog message: ${path} is not a stream socket (use protocol "unix-dgram" for datagram sockets such as /dev/log):`,
+				err,
+			);
+			return;
+		}
+		reportSyslogError(err);
+	};
+}
+
+
+
+
+
+function createSyslogSender(protocol: SyslogProtocol, host: string, options: SyslogTransportOptions): SocketSender {
+	switch (protocol) {
+		case 'udp':
+			return createUdpSender({ host, port: options.port ?? 514, onError: reportSyslogError });
+		case 'unix-dgram':
+			return createUnixDgramSender({
+				path: options.path ?? '/dev/log',
+				onError: reportSyslogError,
+				maxQueueSize: options.maxQueueSize,
+			});
+		default:
+			return createStreamSender({
+				connect: protocol === 'tcp' ? { host, port: options.port ?? 514 } : { path: options.path! },
+				onError: protocol === 'tcp' ? reportSyslogError : reportUnixStreamError(options.path!),
+				reconnectDelayMs: options.reconnectDelayMs,
+				maxReconnectDelayMs: options.maxReconnectDelayMs,
+				maxQueueSize: options.maxQueueSize,
+			});
+	}
+}
+
+
+
+
+
+
+
+
+
+
+
+export function syslogTransport(options: SyslogTransportOptions = {}): Transport {
+	const protocol = options.protocol ?? 'udp';
+	const facility =
+		typeof options.facility === 'number'
+			? options.facility
+			: SYSLOG_FACILITIES[options.facility ?? 'user'];
+	const host = options.host ?? 'localhost';
+	if (protocol === 'unix-stream' && !options.path) {
+		throw new Error('Syslog protocol "unix-stream" requires a socket path');
+	}
+
+	const framing = options.framing ?? (protocol === 'tcp' ? 'octet-counting' : 'newline');
+
+	const sender = createSyslogSender(protocol, host, options);
+
+	return {
+		name: 'syslog',
+		level: options.level,
+		sources: options.sources,
+		write: (record) => {
+			const message = formatSyslogMessage(record, {
+				facility,
+				appName: options.appName ?? getLoggingConfig().serviceName ?? 'node',
+				hostname: options.hostname ?? os.hostname(),
+				procId: String(process.pid),
+				sdId: options.sdId ?? 'context@32473',
+			});
+			const datagram = protocol === 'udp' || protocol === 'unix-dgram';
+			sender.send(datagram ? Buffer.from(message, 'utf8') : frameSyslogMessage(message, framing));
+		},
+		flush: () => sender.flush(),
+		close: () => sender.close(),
+	};
+}
@@ -0,0 +1,247 @@
+
+
+
+
+
+
+
+
+
+
+
+
+import { getLoggingConfig } from './config.js';
+import type { Transport, WriteLogFn } from './config.js';
+import { formatLine, formatPretty, supportsColor } from './formatters.js';
+import type { LineFormat } from './formatters.js';
+import { isLevelEnabled } from './levels.js';
+import type { AdminActivityLog, LogLevel, LogRecord, LogSource } from './types.js';
+
+
+
+
+export interface TransportOptions {
+	level?: LogLevel;
+	sources?: LogSource[];
+}
+
+
+
+
+
+export interface ConsoleTransportOptions extends TransportOptions {
+
+	format?: ConsoleFormat;
+
+	colors?: boolean;
+}
+
+
+
+
+export type ConsoleFormat = 'pretty' | LineFormat;
+
+
+const STRUCTURED_CONTEXT_KEYS = ['component', 'action', 'userId', 'sessionId', 'requestId'];
+
+
+let lastPrettyTimestamp: number | undefined;
+
+
+
+
+function reportTransportError(transport: Transport, err: unknown): void {
+	console.error(`Log transport "${transport.name}" failed:`, err);
+}
+
+
+
+
+function accepts(transport: Transport, source: LogSource, level: string): boolean {
+	if (transport.sources && !transport.sources.includes(source)) return false;
+	return isLevelEnabled(level, transport.level);
+}
+
+
+
+
+
+
+export function anyAccepts(transports: Transport[], source: LogSource, level: string): boolean {
+	return transports.some((transport) => accepts(transport, source, level));
+}
+
+
+
+
+
+
+
+
+export function dispatch(record: LogRecord, transports: Transport[]): Promise<void> {
+	const pending: Promise<void>[] = [];
+
+	for (const transport of transports) {
+		if (!accepts(transport, record.source, record.level)) continue;
+		try {
+			const result = transport.write(record);
+			if (result) {
+				pending.push(result.catch((err) => reportTransportError(transport, err)));
+			}
+		} catch (err) {
+			reportTransportError(transport, err);
+		}
+	}
+
+	return pending.length > 0 ? Promise.all(pending).then(() => undefined) : Promise.resolve();
+}
+
+
+
+
+
+export function resolveTransports(defaults: () => Transport[]): Transport[] {
+	return getLoggingConfig().transports ?? defaults();
+}
+
+
+
+
+
+async function eachTransport(
+	transports: Transport[],
+	method: 'flush' | 'close',
+	deadline?: number,
+): Promise<void> {
+	await Promise.all(
+		transports.map(async (transport) => {
+			try {
+				await (method === 'close' ? transport.close?.(deadline) : transport.flush?.());
+			} catch (err) {
+				reportTransportError(transport, err);
+			}
+		}),
+	);
+}
+
+
+
+
+export function flushTransports(
+	transports: Transport[] = getLoggingConfig().transports ?? [],
+): Promise<void> {
+	return eachTransport(transports, 'flush');
+}
+
+
+
+
+export function closeTransports(
+	transports: Transport[] = getLoggingConfig().transports ?? [],
+	deadline?: number,
+): Promise<void> {
+	return eachTransport(transports, 'close', deadline);
+}
+
+
+
+
+
+
+export function toLogEntry(record: LogRecord): Record<string, unknown> {
+	const { context } = record;
+	return {
+		level: record.level,
+		message: record.message,
+		timestamp: record.timestamp,
+
+		...(record.traceId !== undefined && { trace_id: record.traceId }),
+		...(record.spanId !== undefined && { span_id: record.spanId }),
+
+		component: context.component,
+		action: context.action,
+
+		user_id: context.userId,
+		session_id: context.sessionId,
+		request_id: context.requestId,
+
+		...Object.fromEntries(
+			Object.entries(context).filter(([key]) => !STRUCTURED_CONTEXT_KEYS.includes(key)),
+		),
+		...record.metadata,
+	};
+}
+
+
+
+
+
+export function auditRecord(log: AdminActivityLog, message: string = log.action): LogRecord {
+	return {
+		source: 'audit',
+		level: 'info',
+		message,
+		timestamp: new Date(log.created_at).getTime(),
+		context: {
+			component: 'audit',
+			action: log.action,
+			userId: log.admin_user_id,
+			...log.details,
+		},
+		audit: log,
+	};
+}
+
+
+
+
+
+export function dispatchAudit(log: AdminActivityLog, message?: string): Promise<void> {
+	const transports = getLoggingConfig().transports;
+	if (!transports) return Promise.resolve();
+	return dispatch(auditRecord(log, message), transports);
+}
+
+
+
+
+
+export function consoleTransport(options: ConsoleTransportOptions = {}): Transport {
+	const { format, colors, ...rest } = options;
+	return {
+		name: 'console',
+		...rest,
+		write: (record) => {
+			const resolved = format ?? (getLoggingConfig().nodeEnv === 'production' ? 'json' : 'pretty');
+			if (resolved !== 'pretty') {
+				console.log(formatLine(record, resolved));
+				return;
+			}
+			console.log(
+				formatPretty(record, {
+					colors: colors ?? supportsColor(),
+					previousTimestamp: lastPrettyTimestamp,
+				}),
+			);
+			lastPrettyTimestamp = record.timestamp;
+		},
+	};
+}
+
+
+
+
+
+export function writeLogTransport(
+	options: TransportOptions & { writeLog?: WriteLogFn } = {},
+): Transport {
+	const { writeLog, ...rest } = options;
+	return {
+		name: 'writeLog',
+		...rest,
+		write: (record) => {
+			const fn = writeLog ?? getLoggingConfig().writeLog;
+			return fn?.(toLogEntry(record));
+		},
+	};
+}
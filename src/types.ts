@@ -30,6 +30,22 @@ export interface LogContext {
 	
 	requestId?: string;
 	
+	err?: unknown;
+	
+	[key: string]: unknown;
+}
+
+
+
+
+
+export interface SerializedError {
+	name: string;
+	message: string;
+	stack?: string;
+	code?: unknown;
+	cause?: unknown;
+	errors?: unknown[];
 	[key: string]: unknown;
 }
 
@@ -85,9 +101,73 @@ export interface LogEntry {
 
 
 
+export type LogSource = 'structured' | 'loki' | 'audit';
+
+
+
+
+
+
+export interface LogRecord {
+	source: LogSource;
+	
+	level: string;
+	message: string;
+	
+	timestamp: number;
+	context: LogContext;
+	traceId?: string;
+	spanId?: string;
+	
+	labels?: Record<string, string>;
+	metadata?: Record<string, string>;
+	
+	audit?: AdminActivityLog;
+}
+
+
+
+
 export interface LokiLogEntry {
 	level: string;
 	message: string;
 	timestamp: string;
 	labels: Record<string, string>;
+	metadata?: Record<string, string>;
+}
+
+
+
+
+export type LokiDropReason =
+	| 'rejected'
+	| 'max-attempts'
+	| 'overflow'
+	| 'spool-overflow'
+	| 'tenant-error'
+	| 'shutdown';
+
+
+
+
+export type LokiOverflowPolicy = 'drop-oldest' | 'drop-newest' | 'drop-debug-first';
+
+
+
+
+export interface LokiDroppedBatch {
+	reason: LokiDropReason;
+	entries: LokiLogEntry[];
+	attempts: number;
+	status?: number;
+	error?: unknown;
+}
+
+
+
+
+export interface LokiStats {
+	droppedBatches: number;
+	droppedEntries: number;
+	failedPushes: number;
 }
@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+	structuredLogger,
+	serializeError,
+	serializeErrors,
+	lokiTransport,
+	flushLogs,
+	configureLogging,
+	resetLoggingConfig,
+	_resetBuffer,
+} from '../src/index.js';
+
+function errorWithStack(message: string, frames: number): Error {
+	const err = new Error(message);
+	err.stack = [`Error: ${message}`, ...Array.from({ length: frames }, (_, i) => `    at fn${i} (app.ts:${i}:1)`)].join(
+		'\n',
+	);
+	return err;
+}
+
+describe('error-serializer', () => {
+	beforeEach(() => {
+		resetLoggingConfig();
+		_resetBuffer();
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		vi.unstubAllGlobals();
+		_resetBuffer();
+	});
+
+	describe('serializeError', () => {
+		it('should capture name, message, stack and code', () => {
+			const err = Object.assign(new TypeError('bad'), { code: 'E_BAD' });
+			expect(serializeError(err)).toEqual({
+				name: 'TypeError',
+				message: 'bad',
+				stack: err.stack,
+				code: 'E_BAD',
+			});
+		});
+
+		it('should serialize cause chains recursively', () => {
+			const root = new Error('connection refused');
+			const mid = new Error('query failed', { cause: root });
+			const top = new Error('request failed', { cause: mid });
+			const serialized = serializeError(top);
+			expect(serialized.cause).toMatchObject({
+				message: 'query failed',
+				cause: { name: 'Error', message: 'connection refused', stack: root.stack },
+			});
+		});
+
+		it('should keep non-error causes', () => {
+			expect(serializeError(new Error('x', { cause: { status: 503 } })).cause).toEqual({ status: 503 });
+		});
+
+		it('should serialize AggregateError members', () => {
+			const err = new AggregateError([new Error('a'), new RangeError('b')], 'many');
+			expect(serializeError(err)).toMatchObject({
+				name: 'AggregateError',
+				message: 'many',
+				errors: [
+					{ name: 'Error', message: 'a' },
+					{ name: 'RangeError', message: 'b' },
+				],
+			});
+		});
+
+		it('should include custom enumerable properties', () => {
+			class HttpError extends Error {
+				constructor(
+					message: string,
+					public status: number,
+					public response: { body: string },
+				) {
+					super(message);
+					this.name = 'HttpError';
+				}
+			}
+			expect(serializeError(new HttpError('not found', 404, { body: 'nope' }))).toMatchObject({
+				name: 'HttpError',
+				status: 404,
+				response: { body: 'nope' },
+			});
+		});
+
+		it('should limit stack depth', () => {
+			const err = errorWithStack('deep', 10);
+			expect(serializeError(err, { stackDepth: 2 }).stack).toBe(
+				'Error: deep\n    at fn0 (app.ts:0:1)\n    at fn1 (app.ts:1:1)',
+			);
+			configureLogging({ errorStackDepth: 0 });
+			expect(serializeError(err).stack).toBe('Error: deep');
+		});
+
+		it('should stop at circular causes', () => {
+			const a = new Error('a');
+			const b = new Error('b', { cause: a });
+			(a as Error & { cause?: unknown }).cause = b;
+			expect(serializeError(a)).toMatchObject({ message: 'a', cause: { message: 'b', cause: '[Circular]' } });
+		});
+	});
+
+	describe('serializeErrors', () => {
+		it('should replace errors anywhere in a value', () => {
+			const err = new Error('nested');
+			expect(serializeErrors({ a: [{ err }], keep: 1 })).toEqual({
+				a: [{ err: { name: 'Error', message: 'nested', stack: err.stack } }],
+				keep: 1,
+			});
+		});
+
+		it('should leave values without errors untouched', () => {
+			const date = new Date(0);
+			expect(serializeErrors({ date, n: null })).toEqual({ date, n: null });
+		});
+	});
+
+	describe('logger integration', () => {
+		it('should serialize the err field for writeLog', async () => {
+			const writeLog = vi.fn().mockResolvedValue(undefined);
+			configureLogging({ writeLog });
+			const err = new Error('db down', { cause: new Error('ECONNREFUSED') });
+			await structuredLogger.error({ component: 'db', err }, 'query failed');
+			const entry = writeLog.mock.calls[0]![0];
+			expect(JSON.parse(JSON.stringify(entry)).err).toMatchObject({
+				name: 'Error',
+				message: 'db down',
+				stack: expect.stringContaining('db down'),
+				cause: { message: 'ECONNREFUSED' },
+			});
+		});
+
+		it('should accept an Error as the context argument', async () => {
+			const writeLog = vi.fn().mockResolvedValue(undefined);
+			configureLogging({ writeLog });
+			await structuredLogger.error('query failed', new Error('db down'));
+			await structuredLogger.error(new Error('timeout'));
+			expect(writeLog.mock.calls[0]![0]).toMatchObject({ message: 'query failed', err: { message: 'db down' } });
+			expect(writeLog.mock.calls[1]![0]).toMatchObject({ message: '', err: { message: 'timeout' } });
+		});
+
+		it('should accept an Error as the context argument of scoped loggers', async () => {
+			const writeLog = vi.fn().mockResolvedValue(undefined);
+			configureLogging({ writeLog });
+			const log = structuredLogger.child({ component: 'db' });
+			await log.error('query failed', new Error('db down'));
+			await log.warn(new Error('slow'), 'retrying');
+			expect(writeLog.mock.calls[0]![0]).toMatchObject({
+				message: 'query failed',
+				component: 'db',
+				err: { name: 'Error', message: 'db down' },
+			});
+			expect(writeLog.mock.calls[1]![0]).toMatchObject({
+				message: 'retrying',
+				component: 'db',
+				err: { message: 'slow' },
+			});
+		});
+
+		it('should not lose errors on the Loki path', async () => {
+			const fetchMock = vi.fn().mockResolvedValue({ ok: true });
+			vi.stubGlobal('fetch', fetchMock);
+			configureLogging({ lokiUrl: 'http://loki:3100', errorStackDepth: 1, transports: [lokiTransport()] });
+			await structuredLogger.error({ err: errorWithStack('boom', 5) }, 'failed');
+			await flushLogs();
+			const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+			const line = JSON.parse(body.streams[0].values[0][1]);
+			expect(JSON.parse(line.err)).toEqual({
+				name: 'Error',
+				message: 'boom',
+				stack: 'Error: boom\n    at fn0 (app.ts:0:1)',
+			});
+		});
+	});
+});
@@ -0,0 +1,257 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+	formatPretty,
+	formatJsonLine,
+	formatLogfmtLine,
+	formatLine,
+	toEcsDocument,
+	supportsColor,
+	configureLogging,
+	resetLoggingConfig,
+} from '../src/index.js';
+import type { AdminActivityLog } from '../src/index.js';
+import { auditRecord } from '../src/transports.js';
+import { formatRelativeTime, shortTraceId } from '../src/formatters.js';
+import { record } from './helpers.js';
+
+describe('formatters', () => {
+	afterEach(() => {
+		vi.unstubAllEnvs();
+		resetLoggingConfig();
+	});
+
+	describe('formatPretty', () => {
+		it('should align level badges', () => {
+			const lines = (['debug', 'info', 'warn', 'error'] as const).map((level) =>
+				formatPretty(record({ level, message: 'm' })),
+			);
+			expect(lines).toEqual(['   +0ms DEBUG m', '   +0ms INFO  m', '   +0ms WARN  m', '   +0ms ERROR m']);
+		});
+
+		it('should show the time since the previous record', () => {
+			const r = record();
+			expect(formatPretty(r, { previousTimestamp: r.timestamp - 42 })).toMatch(/^ {2}\+42ms /);
+			expect(formatPretty(r, { previousTimestamp: r.timestamp - 1500 })).toMatch(/^ {2}\+1\.5s /);
+		});
+
+		it('should indent context keys aligned to the longest key', () => {
+			const output = formatPretty(
+				record({ context: { component: 'auth', userId: 'u1', attempts: 3, tags: ['a'] } }),
+			);
+			expect(output.split('\n')).toEqual([
+				'   +0ms INFO  [auth] hello',
+				'    userId  : u1',
+				"    attempts: 3",
+				"    tags    : [ 'a' ]",
+			]);
+		});
+
+		it('should shorten trace IDs', () => {
+			const output = formatPretty(
+				record({
+					traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+					spanId: '00f067aa0ba902b7',
+					metadata: { trace_id: '4bf92f3577b34da6a3ce929d0e0e4736' },
+				}),
+			);
+			expect(output).toBe('   +0ms INFO  hello trace=4bf92f35');
+		});
+
+		it('should pretty-print error stacks', () => {
+			const err = new Error('boom');
+			err.stack = 'Error: boom\n    at handler (app.ts:1:1)\n    at run (app.ts:2:2)';
+			const output = formatPretty(record({ level: 'error', context: { error: err } }));
+			expect(output.split('\n')).toEqual([
+				'   +0ms ERROR hello',
+				'    error: Error: boom',
+				'           at handler (app.ts:1:1)',
+				'           at run (app.ts:2:2)',
+			]);
+		});
+
+		it('should print error causes', () => {
+			const output = formatPretty(
+				record({
+					context: {
+						err: {
+							name: 'Error',
+							message: 'outer',
+							stack: 'Error: outer\n    at a (x.ts:1:1)',
+							cause: { name: 'Error', message: 'inner', stack: 'Error: inner\n    at b (y.ts:2:2)' },
+						},
+					},
+				}),
+			);
+			expect(output.split('\n')).toEqual([
+				'   +0ms INFO  hello',
+				'    err: Error: outer',
+				'         at a (x.ts:1:1)',
+				'         caused by: Error: inner',
+				'         at b (y.ts:2:2)',
+			]);
+		});
+
+		it('should show Loki labels and audit badges', () => {
+			expect(formatPretty(record({ source: 'loki', context: {}, labels: { route: '/x' } }))).toBe(
+				'   +0ms INFO  hello\n    route: /x',
+			);
+			expect(formatPretty(record({ source: 'audit', context: { component: 'audit' } }))).toBe(
+				'   +0ms AUDIT [audit] hello',
+			);
+		});
+
+		it('should add ANSI colors when enabled', () => {
+			const output = formatPretty(record({ level: 'error' }), { colors: true });
+			expect(output).toContain('\x1b[1m\x1b[31mERROR\x1b[0m');
+			expect(formatPretty(record())).not.toContain('\x1b[');
+		});
+	});
+
+	describe('supportsColor', () => {
+		it('should require a TTY', () => {
+			vi.stubEnv('NO_COLOR', '');
+			expect(supportsColor({ isTTY: true })).toBe(true);
+			expect(supportsColor({ isTTY: false })).toBe(false);
+		});
+
+		it('should respect NO_COLOR', () => {
+			vi.stubEnv('NO_COLOR', '1');
+			expect(supportsColor({ isTTY: true })).toBe(false);
+		});
+	});
+
+	describe('helpers', () => {
+		it('should format relative times', () => {
+			expect(formatRelativeTime(0)).toBe('+0ms');
+			expect(formatRelativeTime(-5)).toBe('+0ms');
+			expect(formatRelativeTime(12000)).toBe('+12.0s');
+			expect(formatRelativeTime(90000)).toBe('+1.5m');
+		});
+
+		it('should shorten trace IDs', () => {
+			expect(shortTraceId('4bf92f3577b34da6a3ce929d0e0e4736')).toBe('4bf92f35');
+		});
+	});
+
+	describe('formatJsonLine', () => {
+		it('should produce a single JSON line', () => {
+			const line = formatJsonLine(record({ context: { component: 'db', note: 'a\nb' } }));
+			expect(line).not.toContain('\n');
+			expect(JSON.parse(line)).toMatchObject({
+				timestamp: '2026-01-01T00:00:00.000Z',
+				component: 'db',
+				note: 'a\nb',
+				source: 'structured',
+			});
+		});
+	});
+
+	describe('formatLogfmtLine', () => {
+		it('should write key=value pairs with quoting', () => {
+			expect(
+				formatLogfmtLine(
+					record({
+						message: 'user logged in',
+						traceId: 'abc',
+						context: { component: 'auth', userId: 'u1', note: 'say "hi"', empty: '', ok: true },
+					}),
+				),
+			).toBe(
+				'time=2026-01-01T00:00:00.000Z level=info msg="user logged in" trace_id=abc component=auth ' +
+					'user_id=u1 note="say \\"hi\\"" empty="" ok=true source=structured',
+			);
+		});
+
+		it('should flatten nested objects into dotted keys', () => {
+			expect(formatLogfmtLine(record({ context: { db: { host: 'pg', ms: 3 }, ids: [1, 2] } }))).toBe(
+				'time=2026-01-01T00:00:00.000Z level=info msg=hello db.host=pg db.ms=3 ids=[1,2] source=structured',
+			);
+		});
+	});
+
+	describe('toEcsDocument', () => {
+		it('should map structured records to ECS fields', () => {
+			configureLogging({ serviceName: 'web' });
+			const err = new TypeError('bad input');
+			expect(
+				toEcsDocument(
+					record({
+						level: 'error',
+						traceId: 't1',
+						spanId: 's1',
+						context: {
+							component: 'api',
+							action: 'order.create',
+							userId: 'u1',
+							requestId: 'r1',
+							error: err,
+							orderId: 42,
+						},
+					}),
+				),
+			).toEqual({
+				'@timestamp': '2026-01-01T00:00:00.000Z',
+				'log.level': 'error',
+				message: 'hello',
+				'ecs.version': '8.11.0',
+				'service.name': 'web',
+				'log.logger': 'api',
+				'event.dataset': 'tinyland.app',
+				'trace.id': 't1',
+				'span.id': 's1',
+				'event.action': 'order.create',
+				'user.id': 'u1',
+				'http.request.id': 'r1',
+				'error.type': 'TypeError',
+				'error.message': 'bad input',
+				'error.stack_trace': err.stack,
+				orderId: 42,
+			});
+		});
+
+		it('should map admin audit records', () => {
+			const log: AdminActivityLog = {
+				id: 'a1',
+				admin_user_id: 'u1',
+				admin_email: 'admin@example.com',
+				action: 'user.delete',
+				resource_type: 'user',
+				resource_id: 'u2',
+				ip_address: '10.0.0.1',
+				user_agent: 'Mozilla/5.0',
+				details: { reason: 'spam' },
+				created_at: '2026-01-01T00:00:00.000Z',
+			};
+			expect(toEcsDocument(auditRecord(log))).toMatchObject({
+				'@timestamp': '2026-01-01T00:00:00.000Z',
+				message: 'user.delete',
+				'event.dataset': 'tinyland.audit',
+				'event.kind': 'event',
+				'event.id': 'a1',
+				'event.action': 'user.delete',
+				'user.id': 'u1',
+				'user.email': 'admin@example.com',
+				'source.ip': '10.0.0.1',
+				'user_agent.original': 'Mozilla/5.0',
+				'labels.resource_type': 'user',
+				'labels.resource_id': 'u2',
+				reason: 'spam',
+			});
+		});
+
+		it('should not let context fields override ECS fields', () => {
+			const doc = toEcsDocument(record({ context: { message: 'spoofed', error: 'plain text' } }));
+			expect(doc.message).toBe('hello');
+			expect(doc.error).toBe('plain text');
+		});
+	});
+
+	describe('formatLine', () => {
+		it('should select the line format', () => {
+			const r = record();
+			expect(formatLine(r)).toBe(formatJsonLine(r));
+			expect(formatLine(r, 'logfmt')).toBe(formatLogfmtLine(r));
+			expect(JSON.parse(formatLine(r, 'ecs'))['log.level']).toBe('info');
+		});
+	});
+});
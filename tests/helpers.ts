@@ -0,0 +1,24 @@
+import type { LogRecord, Transport } from '../src/index.js';
+
+export function record(overrides: Partial<LogRecord> = {}): LogRecord {
+	return {
+		source: 'structured',
+		level: 'info',
+		message: 'hello',
+		timestamp: Date.parse('2026-01-01T00:00:00.000Z'),
+		context: {},
+		...overrides,
+	};
+}
+
+export function memoryTransport(overrides: Partial<Transport> = {}): Transport & { records: LogRecord[] } {
+	const records: LogRecord[] = [];
+	return {
+		name: 'memory',
+		records,
+		write: (r) => {
+			records.push(r);
+		},
+		...overrides,
+	};
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+	normalizeLevel,
+	isLevelEnabled,
+	shouldSample,
+	resolveComponentLevel,
+	_getResolvedComponentCount,
+} from '../src/levels.js';
+
+describe('levels', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe('normalizeLevel', () => {
+		it('should lowercase known levels', () => {
+			expect(normalizeLevel('WARN')).toBe('warn');
+			expect(normalizeLevel('debug')).toBe('debug');
+		});
+
+		it('should return undefined for unknown levels', () => {
+			expect(normalizeLevel('TRACE')).toBeUndefined();
+		});
+	});
+
+	describe('isLevelEnabled', () => {
+		it('should allow everything without a minimum level', () => {
+			expect(isLevelEnabled('DEBUG')).toBe(true);
+		});
+
+		it('should compare against the minimum level', () => {
+			expect(isLevelEnabled('DEBUG', 'info')).toBe(false);
+			expect(isLevelEnabled('INFO', 'info')).toBe(true);
+			expect(isLevelEnabled('error', 'warn')).toBe(true);
+		});
+
+		it('should allow unknown levels', () => {
+			expect(isLevelEnabled('FATAL', 'error')).toBe(true);
+		});
+	});
+
+	describe('shouldSample', () => {
+		it('should keep everything without rates', () => {
+			expect(shouldSample('DEBUG')).toBe(true);
+		});
+
+		it('should drop levels with a zero rate', () => {
+			expect(shouldSample('DEBUG', { debug: 0 })).toBe(false);
+		});
+
+		it('should keep levels without a configured rate', () => {
+			expect(shouldSample('ERROR', { debug: 0 })).toBe(true);
+		});
+
+		it('should sample probabilistically', () => {
+			vi.spyOn(Math, 'random').mockReturnValueOnce(0.05).mockReturnValueOnce(0.5);
+			expect(shouldSample('INFO', { info: 0.1 })).toBe(true);
+			expect(shouldSample('INFO', { info: 0.1 })).toBe(false);
+		});
+	});
+
+	describe('resolveComponentLevel', () => {
+		const spec = 'auth:*=debug,db=warn,*=info';
+
+		it('should return undefined without a spec', () => {
+			expect(resolveComponentLevel('auth')).toBeUndefined();
+			expect(resolveComponentLevel('auth', '')).toBeUndefined();
+		});
+
+		it('should match wildcards', () => {
+			expect(resolveComponentLevel('auth:login', spec)).toBe('debug');
+			expect(resolveComponentLevel('api', spec)).toBe('info');
+			expect(resolveComponentLevel(undefined, spec)).toBe('info');
+		});
+
+		it('should match child namespaces hierarchically', () => {
+			expect(resolveComponentLevel('db', spec)).toBe('warn');
+			expect(resolveComponentLevel('db:pool', spec)).toBe('warn');
+			expect(resolveComponentLevel('dbx', spec)).toBe('info');
+		});
+
+		it('should prefer the most specific pattern', () => {
+			const levels = 'auth=warn,auth:totp=error,*=debug,auth:totp:verify=info';
+			expect(resolveComponentLevel('auth:session', levels)).toBe('warn');
+			expect(resolveComponentLevel('auth:totp:setup', levels)).toBe('error');
+			expect(resolveComponentLevel('auth:totp:verify', levels)).toBe('info');
+			expect(resolveComponentLevel('auth:totp', 'auth:*=debug,auth:totp=warn')).toBe('warn');
+		});
+
+		it('should let later entries win ties', () => {
+			expect(resolveComponentLevel('db', 'db=warn,db=error')).toBe('error');
+		});
+
+		it('should treat bare patterns as debug and skip invalid entries', () => {
+			expect(resolveComponentLevel('cache', 'cache, queue=loud')).toBe('debug');
+			expect(resolveComponentLevel('queue', 'cache, queue=loud')).toBeUndefined();
+		});
+
+		it('should not match components without a wildcard or namespace boundary', () => {
+			expect(resolveComponentLevel('auth', 'auth:*=debug')).toBeUndefined();
+			expect(resolveComponentLevel('a.b', 'a.b=warn')).toBe('warn');
+			expect(resolveComponentLevel('axb', 'a.b=warn')).toBeUndefined();
+		});
+
+		it('should cap the number of cached component lookups', () => {
+			const levels = 'req:*=debug';
+			for (let i = 0; i < 1500; i++) resolveComponentLevel(`req:${i}`, levels);
+			expect(_getResolvedComponentCount(levels)).toBe(1000);
+			expect(resolveComponentLevel('req:0', levels)).toBe('debug');
+			expect(resolveComponentLevel('other', levels)).toBeUndefined();
+		});
+	});
+});
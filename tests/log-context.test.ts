@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+	structuredLogger,
+	createScopedLogger,
+	lokiLog,
+	logAdminFileActivity,
+	adminFileLogger,
+	logAdminFlatActivity,
+	readFlatLogs,
+	runWithLogContext,
+	getLogContext,
+	configureLogging,
+	resetLoggingConfig,
+	_resetBuffer,
+} from '../src/index.js';
+import { memoryTransport } from './helpers.js';
+
+describe('log-context', () => {
+	beforeEach(() => {
+		resetLoggingConfig();
+		_resetBuffer();
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		_resetBuffer();
+	});
+
+	describe('runWithLogContext', () => {
+		it('should expose the context inside the callback only', () => {
+			expect(getLogContext()).toEqual({});
+			const result = runWithLogContext({ requestId: 'r1' }, () => getLogContext());
+			expect(result).toEqual({ requestId: 'r1' });
+			expect(getLogContext()).toEqual({});
+		});
+
+		it('should layer nested runs', () => {
+			runWithLogContext({ requestId: 'r1', userId: 'u1' }, () => {
+				runWithLogContext({ userId: 'u2', component: 'db' }, () => {
+					expect(getLogContext()).toEqual({ requestId: 'r1', userId: 'u2', component: 'db' });
+				});
+				expect(getLogContext()).toEqual({ requestId: 'r1', userId: 'u1' });
+			});
+		});
+
+		it('should propagate across async boundaries', async () => {
+			const seen = await runWithLogContext({ sessionId: 's1' }, async () => {
+				await new Promise((resolve) => setTimeout(resolve, 1));
+				return getLogContext();
+			});
+			expect(seen).toEqual({ sessionId: 's1' });
+		});
+
+		it('should keep concurrent runs isolated', async () => {
+			const run = (requestId: string, delay: number) =>
+				runWithLogContext({ requestId }, async () => {
+					await new Promise((resolve) => setTimeout(resolve, delay));
+					return getLogContext().requestId;
+				});
+			expect(await Promise.all([run('a', 5), run('b', 1)])).toEqual(['a', 'b']);
+		});
+
+		it('should not expose the stored context for mutation', () => {
+			runWithLogContext({ requestId: 'r1' }, () => {
+				getLogContext().requestId = 'changed';
+				expect(getLogContext().requestId).toBe('r1');
+			});
+		});
+	});
+
+	describe('logger integration', () => {
+		it('should merge the ambient context into structured logs', async () => {
+			const memory = memoryTransport();
+			configureLogging({ transports: [memory] });
+			await runWithLogContext({ requestId: 'r1', userId: 'u1' }, async () => {
+				await structuredLogger.info({ userId: 'u2' }, 'explicit wins');
+				await createScopedLogger({ component: 'auth' }).warn('scoped');
+				await structuredLogger.error(new Error('boom'));
+			});
+
+			expect(memory.records[0]!.context).toEqual({ requestId: 'r1', userId: 'u2' });
+			expect(memory.records[1]!.context).toEqual({ requestId: 'r1', userId: 'u1', component: 'auth' });
+			expect(memory.records[2]!.context).toMatchObject({ requestId: 'r1', err: { message: 'boom' } });
+		});
+
+		it('should merge the ambient context into Loki labels', () => {
+			const memory = memoryTransport();
+			configureLogging({ transports: [memory] });
+			runWithLogContext({ requestId: 'r1', attempt: 2 }, () => {
+				lokiLog('INFO', 'sent', { requestId: 'override', route: '/a' });
+			});
+			expect(memory.records[0]!.labels).toEqual({ requestId: 'override', attempt: '2', route: '/a' });
+		});
+
+		it('should add the ambient context to admin audit details', async () => {
+			const memory = memoryTransport();
+			const auditLog = vi.fn().mockResolvedValue(undefined);
+			configureLogging({ auditLog, transports: [memory] });
+			await runWithLogContext({ requestId: 'r1' }, async () => {
+				await logAdminFileActivity({ id: 'u1', email: 'a@b.com' }, '10.0.0.1', null, {
+					action: 'user.update',
+					details: { field: 'email' },
+				});
+				await adminFileLogger.log({ adminId: 'u1', actionType: 'user.delete', actionDescription: 'deleted' });
+			});
+			await logAdminFileActivity({ id: 'u1', email: 'a@b.com' }, '10.0.0.1', null, { action: 'auth.logout' });
+
+			expect(memory.records[0]!.audit!.details).toEqual({ requestId: 'r1', field: 'email' });
+			expect(memory.records[0]!.context.requestId).toBe('r1');
+			expect(auditLog.mock.calls[1]![3]).toMatchObject({ requestId: 'r1' });
+			expect(memory.records[2]!.audit!.details).toBeNull();
+		});
+
+		it('should add the ambient context to the flat-file admin log', async () => {
+			const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'log-context-test-'));
+			try {
+				configureLogging({ logsDir: tmpDir });
+				await runWithLogContext({ requestId: 'r1', sessionId: 's1' }, () =>
+					logAdminFlatActivity({ id: 'u1', email: 'a@b.com' }, '10.0.0.1', null, { action: 'auth.login' }),
+				);
+				const [log] = await readFlatLogs();
+				expect(log!.details).toEqual({ requestId: 'r1', sessionId: 's1' });
+			} finally {
+				await fs.rm(tmpDir, { recursive: true, force: true });
+			}
+		});
+	});
+});
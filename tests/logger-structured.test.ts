@@ -7,6 +7,7 @@ import {
 	_setTraceApi,
 	configureLogging,
 	resetLoggingConfig,
+	runWithLogContext,
 } from '../src/index.js';
 
 describe('logger-structured', () => {
@@ -166,23 +167,66 @@ describe('logger-structured', () => {
 		});
 	});
 
+	describe('component levels', () => {
+		it('should filter by the component level', async () => {
+			configureLogging({ writeLog: writeLogMock, componentLevels: 'auth:*=debug,db=warn,*=info' });
+			await structuredLogger.info({ component: 'db:pool' }, 'pool info');
+			await structuredLogger.warn({ component: 'db' }, 'db warn');
+			await structuredLogger.debug({ component: 'api' }, 'api debug');
+			await structuredLogger.info('no component');
+			expect(writeLogMock.mock.calls.map(([entry]) => entry.message)).toEqual(['db warn', 'no component']);
+		});
+
+		it('should enable debug for matching components in production', async () => {
+			configureLogging({ writeLog: writeLogMock, nodeEnv: 'production', componentLevels: 'auth:*=debug' });
+			await structuredLogger.debug({ component: 'auth:totp' }, 'totp debug');
+			await structuredLogger.debug({ component: 'db' }, 'db debug');
+			expect(writeLogMock).toHaveBeenCalledTimes(1);
+			expect(writeLogMock).toHaveBeenCalledWith(expect.objectContaining({ message: 'totp debug' }));
+		});
+
+		it('should use scoped logger defaults before building the context', async () => {
+			configureLogging({ writeLog: writeLogMock, componentLevels: 'db=warn,auth=debug' });
+			const dbLogger = createScopedLogger({ component: 'db' });
+			const getter = vi.fn(() => 'x');
+			const context = {
+				get lazy() {
+					return getter();
+				},
+			};
+			await dbLogger.info(context, 'suppressed');
+			await dbLogger.debug({ component: 'auth' }, 'override');
+			await structuredLogger.child({ component: 'db' }).error('child error');
+			expect(getter).not.toHaveBeenCalled();
+			expect(writeLogMock.mock.calls.map(([entry]) => entry.message)).toEqual(['override', 'child error']);
+		});
+
+		it('should resolve the component from the ambient log context', async () => {
+			configureLogging({ writeLog: writeLogMock, componentLevels: 'db=warn' });
+			await runWithLogContext({ component: 'db' }, () => structuredLogger.info('ambient'));
+			expect(writeLogMock).not.toHaveBeenCalled();
+		});
+	});
+
 	describe('console output in development', () => {
+		beforeEach(() => {
+			vi.stubEnv('NO_COLOR', '1');
+		});
+
+		afterEach(() => {
+			vi.unstubAllEnvs();
+		});
+
 		it('should log to console in development', async () => {
 			configureLogging({ writeLog: writeLogMock, nodeEnv: 'development' });
 			await structuredLogger.info('console test');
-			expect(consoleSpy).toHaveBeenCalledWith(
-				'[INFO] console test',
-				expect.any(Object),
-			);
+			expect(consoleSpy).toHaveBeenCalledWith(expect.stringMatching(/INFO +console test/));
 		});
 
 		it('should include component tag in console output', async () => {
 			configureLogging({ writeLog: writeLogMock, nodeEnv: 'development' });
 			await structuredLogger.info({ component: 'myComp' }, 'tagged msg');
-			expect(consoleSpy).toHaveBeenCalledWith(
-				'[INFO][myComp] tagged msg',
-				expect.objectContaining({ component: 'myComp' }),
-			);
+			expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('INFO  [myComp] tagged msg'));
 		});
 
 		it('should not log to console in production', async () => {
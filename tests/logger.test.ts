@@ -1,8 +1,17 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { gunzipSync } from 'node:zlib';
 import {
 	lokiLogger,
 	lokiLog,
+	lokiTransport,
+	closeTransports,
 	flushLogs,
+	getLokiStats,
+	_setTraceApi,
+	shutdownLogging,
+	installShutdownHandlers,
 	_getBufferLength,
 	_resetBuffer,
 	_getFlushTimer,
@@ -51,83 +60,137 @@ describe('logger (Loki push logger)', () => {
 	});
 
 	describe('console logging', () => {
+		beforeEach(() => {
+			vi.stubEnv('NO_COLOR', '1');
+		});
+
+		afterEach(() => {
+			vi.unstubAllEnvs();
+		});
+
 		it('should always log to console', () => {
 			lokiLog('INFO', 'test message');
-			expect(consoleSpy).toHaveBeenCalledWith(
-				expect.stringContaining('[INFO] test message'),
-				expect.any(Object),
-			);
+			expect(consoleSpy).toHaveBeenCalledWith(expect.stringMatching(/INFO +test message/));
 		});
 
-		it('should log with timestamp', () => {
+		it('should log with a relative timestamp in development', () => {
 			lokiLog('INFO', 'timestamp test');
-			const call = consoleSpy.mock.calls[0][0];
-			
-			expect(call).toMatch(/\[\d{4}-\d{2}-\d{2}T/);
+			expect(consoleSpy.mock.calls[0][0]).toMatch(/^ *\+\d+(ms|\.\d[sm]) /);
+		});
+
+		it('should log compact JSON in production', () => {
+			configureLogging({ nodeEnv: 'production' });
+			lokiLog('INFO', 'json line', { env: 'prod' });
+			const line = consoleSpy.mock.calls[0][0] as string;
+			expect(line).not.toContain('\n');
+			expect(JSON.parse(line)).toMatchObject({
+				level: 'info',
+				message: 'json line',
+				env: 'prod',
+				source: 'loki',
+				timestamp: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+			});
 		});
 
 		it('should uppercase the level', () => {
 			lokiLog('debug', 'lower case');
-			expect(consoleSpy).toHaveBeenCalledWith(
-				expect.stringContaining('[DEBUG]'),
-				expect.any(Object),
-			);
+			expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('DEBUG lower case'));
 		});
 
 		it('should include labels in console output', () => {
 			lokiLog('INFO', 'labeled', { env: 'test' });
-			expect(consoleSpy).toHaveBeenCalledWith(
-				expect.any(String),
-				{ env: 'test' },
-			);
+			expect(consoleSpy.mock.calls[0][0]).toContain('\n    env: test');
 		});
 
 		it('should use debug convenience method', () => {
 			lokiLogger.debug('debug msg');
-			expect(consoleSpy).toHaveBeenCalledWith(
-				expect.stringContaining('[DEBUG] debug msg'),
-				expect.any(Object),
-			);
+			expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('DEBUG debug msg'));
 		});
 
 		it('should use info convenience method', () => {
 			lokiLogger.info('info msg');
-			expect(consoleSpy).toHaveBeenCalledWith(
-				expect.stringContaining('[INFO] info msg'),
-				expect.any(Object),
-			);
+			expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('INFO  info msg'));
 		});
 
 		it('should use warn convenience method', () => {
 			lokiLogger.warn('warn msg');
-			expect(consoleSpy).toHaveBeenCalledWith(
-				expect.stringContaining('[WARN] warn msg'),
-				expect.any(Object),
-			);
+			expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('WARN  warn msg'));
 		});
 
 		it('should use error convenience method', () => {
 			lokiLogger.error('error msg');
-			expect(consoleSpy).toHaveBeenCalledWith(
-				expect.stringContaining('[ERROR] error msg'),
-				expect.any(Object),
-			);
+			expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining('ERROR error msg'));
 		});
 
 		it('should handle labels in convenience methods', () => {
 			lokiLogger.info('with labels', { service: 'api' });
-			expect(consoleSpy).toHaveBeenCalledWith(
-				expect.any(String),
-				{ service: 'api' },
-			);
+			expect(consoleSpy.mock.calls[0][0]).toContain('service: api');
 		});
 
 		it('should handle undefined labels', () => {
 			lokiLogger.info('no labels');
-			expect(consoleSpy).toHaveBeenCalledWith(
-				expect.any(String),
-				expect.any(Object),
-			);
+			expect(consoleSpy.mock.calls[0][0]).not.toContain('\n');
+		});
+	});
+
+	describe('level filtering and sampling', () => {
+		beforeEach(() => {
+			configureLogging({ lokiUrl: 'http://loki:3100', nodeEnv: 'production' });
+		});
+
+		it('should filter the console sink by consoleLevel', () => {
+			configureLogging({ consoleLevel: 'warn' });
+			lokiLogger.info('quiet');
+			lokiLogger.warn('loud');
+			expect(consoleSpy).toHaveBeenCalledTimes(1);
+			expect(JSON.parse(consoleSpy.mock.calls[0][0])).toMatchObject({ level: 'warn', message: 'loud' });
+			expect(_getBufferLength()).toBe(2);
+		});
+
+		it('should filter the Loki sink by lokiLevel', () => {
+			configureLogging({ lokiLevel: 'info' });
+			lokiLogger.debug('console only');
+			lokiLogger.info('both');
+			expect(consoleSpy).toHaveBeenCalledTimes(2);
+			expect(_getBufferLength()).toBe(1);
+		});
+
+		it('should apply the two minimum levels separately', () => {
+			configureLogging({ consoleLevel: 'error', lokiLevel: 'debug' });
+			lokiLogger.debug('loki only');
+			expect(consoleSpy).not.toHaveBeenCalled();
+			expect(_getBufferLength()).toBe(1);
+		});
+
+		it('should not build the record when no sink accepts the level', () => {
+			configureLogging({ consoleLevel: 'info', lokiLevel: 'info' });
+			const read = vi.fn(() => 'value');
+			const labels = {
+				get route() {
+					return read();
+				},
+			};
+			lokiLogger.debug('filtered', labels);
+			expect(read).not.toHaveBeenCalled();
+			expect(consoleSpy).not.toHaveBeenCalled();
+			expect(_getBufferLength()).toBe(0);
+		});
+
+		it('should skip both sinks for unsampled calls', () => {
+			configureLogging({ lokiSampleRates: { debug: 0 } });
+			lokiLogger.debug('sampled out');
+			lokiLogger.info('kept');
+			expect(consoleSpy).toHaveBeenCalledTimes(1);
+			expect(_getBufferLength()).toBe(1);
+		});
+
+		it('should sample per call', () => {
+			vi.spyOn(Math, 'random').mockReturnValueOnce(0.9).mockReturnValueOnce(0.1);
+			configureLogging({ lokiSampleRates: { info: 0.5 } });
+			lokiLogger.info('dropped');
+			lokiLogger.info('kept');
+			expect(_getBufferLength()).toBe(1);
+			expect(consoleSpy.mock.calls[0][0]).toContain('kept');
 		});
 	});
 
@@ -261,6 +324,579 @@ describe('logger (Loki push logger)', () => {
 		});
 	});
 
+	describe('stream labels', () => {
+		it('should use configured static labels instead of the defaults', async () => {
+			configureLogging({
+				lokiUrl: 'http://loki:3100',
+				nodeEnv: 'production',
+				lokiLabels: { job: 'api', service: 'billing' },
+			});
+			lokiLog('INFO', 'static labels');
+			await flushLogs();
+			const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+			expect(body.streams[0].stream).toEqual({
+				job: 'api',
+				service: 'billing',
+				environment: 'production',
+			});
+		});
+
+		it('should allow static labels to override environment', async () => {
+			configureLogging({
+				lokiUrl: 'http://loki:3100',
+				nodeEnv: 'production',
+				lokiLabels: { environment: 'staging' },
+			});
+			lokiLog('INFO', 'env override');
+			await flushLogs();
+			const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+			expect(body.streams[0].stream.environment).toBe('staging');
+		});
+
+		it('should promote whitelisted entry labels to stream labels', async () => {
+			configureLogging({
+				lokiUrl: 'http://loki:3100',
+				lokiLabels: { job: 'api' },
+				lokiStreamLabelKeys: ['component'],
+			});
+			lokiLog('INFO', 'promoted', { component: 'auth', userId: 'u1' });
+			await flushLogs();
+			const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+			expect(body.streams[0].stream.component).toBe('auth');
+			const line = JSON.parse(body.streams[0].values[0][1]);
+			expect(line.component).toBeUndefined();
+			expect(line.userId).toBe('u1');
+		});
+
+		it('should group entries into streams by label set', async () => {
+			configureLogging({
+				lokiUrl: 'http://loki:3100',
+				lokiLabels: { job: 'api' },
+				lokiStreamLabelKeys: ['component'],
+			});
+			lokiLog('INFO', 'a1', { component: 'auth' });
+			lokiLog('INFO', 'd1', { component: 'db' });
+			lokiLog('INFO', 'a2', { component: 'auth' });
+			lokiLog('INFO', 'none');
+			await flushLogs();
+			expect(fetchMock).toHaveBeenCalledTimes(1);
+			const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+			expect(body.streams).toHaveLength(3);
+			const auth = body.streams.find(
+				(s: { stream: Record<string, string> }) => s.stream.component === 'auth',
+			);
+			expect(auth.values.map((v: [string, string]) => JSON.parse(v[1]).msg)).toEqual([
+				'a1',
+				'a2',
+			]);
+		});
+
+		it('should keep entry labels in the line when no keys are promoted', async () => {
+			configureLogging({ lokiUrl: 'http://loki:3100' });
+			lokiLog('INFO', 'a', { component: 'auth' });
+			lokiLog('INFO', 'b', { component: 'db' });
+			await flushLogs();
+			const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+			expect(body.streams).toHaveLength(1);
+			expect(body.streams[0].values).toHaveLength(2);
+		});
+	});
+
+	describe('structured metadata', () => {
+		beforeEach(() => {
+			configureLogging({ lokiUrl: 'http://loki:3100', nodeEnv: 'test' });
+		});
+
+		afterEach(() => {
+			_setTraceApi(undefined);
+		});
+
+		async function flushedValue(): Promise<unknown[]> {
+			await flushLogs();
+			const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+			return body.streams[0].values[0];
+		}
+
+		it('should send structured metadata as the third value element', async () => {
+			lokiLogger.info('with metadata', { route: '/x' }, { request_id: 'r1' });
+			const [, line, metadata] = await flushedValue();
+			expect(metadata).toEqual({ request_id: 'r1' });
+			expect(JSON.parse(line as string)).toEqual({ level: 'INFO', msg: 'with metadata', route: '/x' });
+		});
+
+		it('should omit the third element when there is no metadata', async () => {
+			lokiLog('INFO', 'plain');
+			expect(await flushedValue()).toHaveLength(2);
+		});
+
+		it('should promote the active span into metadata', async () => {
+			_setTraceApi({
+				getActiveSpan: () => ({ spanContext: () => ({ traceId: 't-1', spanId: 's-1' }) }),
+			} as any);
+			lokiLog('INFO', 'traced');
+			const [, line, metadata] = await flushedValue();
+			expect(metadata).toEqual({ trace_id: 't-1', span_id: 's-1' });
+			expect(JSON.parse(line as string).trace_id).toBeUndefined();
+		});
+
+		it('should move trace_id and span_id labels into metadata', async () => {
+			lokiLog('INFO', 'manual trace', { trace_id: 't-2', span_id: 's-2', route: '/y' });
+			const [, line, metadata] = await flushedValue();
+			expect(metadata).toEqual({ trace_id: 't-2', span_id: 's-2' });
+			expect(JSON.parse(line as string)).toEqual({ level: 'INFO', msg: 'manual trace', route: '/y' });
+		});
+
+		it('should let explicit metadata override trace context', async () => {
+			_setTraceApi({
+				getActiveSpan: () => ({ spanContext: () => ({ traceId: 't-1', spanId: 's-1' }) }),
+			} as any);
+			lokiLog('INFO', 'override', {}, { trace_id: 'explicit' });
+			const [, , metadata] = await flushedValue();
+			expect(metadata).toEqual({ trace_id: 'explicit', span_id: 's-1' });
+		});
+
+		it('should inline metadata into the line when disabled', async () => {
+			configureLogging({ lokiStructuredMetadata: false });
+			lokiLog('INFO', 'inline', {}, { request_id: 'r1' });
+			const value = await flushedValue();
+			expect(value).toHaveLength(2);
+			expect(JSON.parse(value[1] as string).request_id).toBe('r1');
+		});
+	});
+
+	describe('auth, tenants and compression', () => {
+		beforeEach(() => {
+			configureLogging({ lokiUrl: 'http://loki:3100', nodeEnv: 'test' });
+		});
+
+		it('should send basic auth credentials', async () => {
+			configureLogging({ lokiAuth: { type: 'basic', username: 'loki', password: 's3cret' } });
+			lokiLog('INFO', 'basic');
+			await flushLogs();
+			const { headers } = fetchMock.mock.calls[0][1];
+			expect(headers.Authorization).toBe(`Basic ${Buffer.from('loki:s3cret').toString('base64')}`);
+		});
+
+		it('should send a bearer token', async () => {
+			configureLogging({ lokiAuth: { type: 'bearer', token: 'tok' } });
+			lokiLog('INFO', 'bearer');
+			await flushLogs();
+			expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe('Bearer tok');
+		});
+
+		it('should merge headers from a custom headers function', async () => {
+			const headers = vi.fn().mockResolvedValue({ 'X-Api-Key': 'key-1' });
+			configureLogging({ lokiAuth: { type: 'headers', headers } });
+			lokiLog('INFO', 'custom headers');
+			await flushLogs();
+			expect(fetchMock.mock.calls[0][1].headers).toEqual({
+				'Content-Type': 'application/json',
+				'X-Api-Key': 'key-1',
+			});
+		});
+
+		it('should retry when the headers function fails', async () => {
+			configureLogging({
+				lokiAuth: {
+					type: 'headers',
+					headers: () => {
+						throw new Error('token refresh failed');
+					},
+				},
+			});
+			lokiLog('INFO', 'no token');
+			await flushLogs();
+			expect(fetchMock).not.toHaveBeenCalled();
+			expect(_getBufferLength()).toBe(1);
+		});
+
+		it('should set a static tenant ID', async () => {
+			configureLogging({ lokiTenantId: 'tenant-a' });
+			lokiLog('INFO', 'tenant');
+			await flushLogs();
+			expect(fetchMock.mock.calls[0][1].headers['X-Scope-OrgID']).toBe('tenant-a');
+		});
+
+		it('should split batches per derived tenant', async () => {
+			configureLogging({ lokiTenantId: (entry) => entry.labels.tenant });
+			lokiLog('INFO', 'a1', { tenant: 'a' });
+			lokiLog('INFO', 'b1', { tenant: 'b' });
+			lokiLog('INFO', 'a2', { tenant: 'a' });
+			await flushLogs();
+			expect(fetchMock).toHaveBeenCalledTimes(2);
+			const byTenant = Object.fromEntries(
+				fetchMock.mock.calls.map((call: [string, { headers: Record<string, string>; body: string }]) => [
+					call[1].headers['X-Scope-OrgID'],
+					JSON.parse(call[1].body).streams[0].values.map((v: [string, string]) => JSON.parse(v[1]).msg),
+				]),
+			);
+			expect(byTenant).toEqual({ a: ['a1', 'a2'], b: ['b1'] });
+		});
+
+		it('should omit the tenant header when none is derived', async () => {
+			configureLogging({ lokiTenantId: () => undefined });
+			lokiLog('INFO', 'no tenant');
+			await flushLogs();
+			expect(fetchMock.mock.calls[0][1].headers['X-Scope-OrgID']).toBeUndefined();
+		});
+
+		it('should drop entries whose tenant callback throws', async () => {
+			const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+			const onLokiError = vi.fn();
+			configureLogging({
+				onLokiError,
+				lokiTenantId: (entry) => {
+					if (entry.message === 'bad') throw new Error('tenant boom');
+					return 'a';
+				},
+			});
+			lokiLog('INFO', 'bad');
+			lokiLog('INFO', 'good');
+			await expect(flushLogs()).resolves.toBeUndefined();
+
+			expect(errorSpy).toHaveBeenCalledWith('Loki tenant callback threw:', expect.any(Error));
+			expect(onLokiError).toHaveBeenCalledWith(
+				expect.objectContaining({ reason: 'tenant-error', entries: [expect.objectContaining({ message: 'bad' })] }),
+			);
+			expect(fetchMock).toHaveBeenCalledTimes(1);
+			expect(fetchMock.mock.calls[0][1].headers['X-Scope-OrgID']).toBe('a');
+		});
+
+		it('should keep flushing after a flush fails', async () => {
+			const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+			let fail = false;
+			configureLogging({
+				lokiBuffer: {
+					get maxRequestBytes() {
+						if (fail) throw new Error('flush boom');
+						return 1024 * 1024;
+					},
+				},
+			});
+			lokiLog('INFO', 'first');
+			fail = true;
+			await expect(flushLogs()).resolves.toBeUndefined();
+			expect(errorSpy).toHaveBeenCalledWith('Failed to send logs to Loki:', expect.any(Error));
+			expect(_getBufferLength()).toBe(1);
+
+			fail = false;
+			lokiLog('INFO', 'second');
+			await expect(flushLogs()).resolves.toBeUndefined();
+			expect(fetchMock).toHaveBeenCalledTimes(1);
+			const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+			expect(body.streams[0].values.map((v: string[]) => JSON.parse(v[1]!).msg)).toEqual(['first', 'second']);
+		});
+
+		it('should drop a batch that keeps failing to send', async () => {
+			vi.spyOn(console, 'error').mockImplementation(() => {});
+			const onLokiError = vi.fn();
+			configureLogging({
+				onLokiError,
+				lokiRetry: { maxAttempts: 1 },
+				lokiBuffer: {
+					get maxRequestBytes(): number {
+						throw new Error('flush boom');
+					},
+				},
+			});
+			lokiLog('INFO', 'lost');
+			await flushLogs();
+			expect(_getBufferLength()).toBe(0);
+			expect(onLokiError).toHaveBeenCalledWith(
+				expect.objectContaining({ reason: 'max-attempts', attempts: 1, error: expect.any(Error) }),
+			);
+		});
+
+		it('should gzip JSON bodies when compression is enabled', async () => {
+			configureLogging({ lokiCompression: 'gzip' });
+			lokiLog('INFO', 'compressed');
+			await flushLogs();
+			const { headers, body } = fetchMock.mock.calls[0][1];
+			expect(headers['Content-Encoding']).toBe('gzip');
+			const decoded = JSON.parse(gunzipSync(body).toString('utf8'));
+			expect(JSON.parse(decoded.streams[0].values[0][1]).msg).toBe('compressed');
+		});
+
+		it('should not gzip protobuf bodies', async () => {
+			configureLogging({ lokiCompression: 'gzip', lokiEncoding: 'protobuf' });
+			lokiLog('INFO', 'snappy only');
+			await flushLogs();
+			expect(fetchMock.mock.calls[0][1].headers['Content-Encoding']).toBeUndefined();
+		});
+	});
+
+	describe('retry and failure accounting', () => {
+		beforeEach(() => {
+			configureLogging({
+				lokiUrl: 'http://loki:3100',
+				nodeEnv: 'test',
+				lokiRetry: { maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 1000 },
+			});
+		});
+
+		it('should re-queue the batch after a network error', async () => {
+			fetchMock.mockRejectedValueOnce(new Error('Network error'));
+			lokiLog('INFO', 'requeue');
+			await flushLogs();
+			expect(_getBufferLength()).toBe(1);
+			expect(_getFlushTimer()).not.toBeNull();
+		});
+
+		it('should re-queue on 5xx and deliver on the next flush', async () => {
+			fetchMock.mockResolvedValueOnce({ ok: false, status: 503 });
+			lokiLog('INFO', 'retry me');
+			await flushLogs();
+			expect(_getBufferLength()).toBe(1);
+			await flushLogs();
+			expect(_getBufferLength()).toBe(0);
+			expect(fetchMock).toHaveBeenCalledTimes(2);
+			const body = JSON.parse(fetchMock.mock.calls[1][1].body);
+			expect(JSON.parse(body.streams[0].values[0][1]).msg).toBe('retry me');
+		});
+
+		it('should re-queue the batch when the push times out', async () => {
+			configureLogging({ lokiRetry: { maxAttempts: 3, requestTimeoutMs: 20 } });
+			fetchMock.mockImplementationOnce(
+				(_url: string, init: RequestInit) =>
+					new Promise((_resolve, reject) => {
+						init.signal!.addEventListener('abort', () => reject(init.signal!.reason));
+					}),
+			);
+			lokiLog('INFO', 'stuck');
+			await flushLogs();
+			expect(_getBufferLength()).toBe(1);
+			expect(getLokiStats().failedPushes).toBe(1);
+
+			await flushLogs();
+			expect(_getBufferLength()).toBe(0);
+			expect(fetchMock).toHaveBeenCalledTimes(2);
+		});
+
+		it('should retry on 429', async () => {
+			fetchMock.mockResolvedValueOnce({ ok: false, status: 429 });
+			lokiLog('INFO', 'rate limited');
+			await flushLogs();
+			expect(_getBufferLength()).toBe(1);
+		});
+
+		it('should keep retried entries ahead of newer entries', async () => {
+			fetchMock.mockResolvedValueOnce({ ok: false, status: 500 });
+			lokiLog('INFO', 'first');
+			await flushLogs();
+			lokiLog('INFO', 'second');
+			await flushLogs();
+			const body = JSON.parse(fetchMock.mock.calls[1][1].body);
+			const msgs = body.streams[0].values.map((v: [string, string]) => JSON.parse(v[1]).msg);
+			expect(msgs).toEqual(['first', 'second']);
+		});
+
+		it('should drop batches rejected with other 4xx statuses', async () => {
+			const onLokiError = vi.fn();
+			configureLogging({ onLokiError });
+			fetchMock.mockResolvedValueOnce({ ok: false, status: 400 });
+			lokiLog('INFO', 'bad request');
+			await flushLogs();
+			expect(_getBufferLength()).toBe(0);
+			expect(onLokiError).toHaveBeenCalledWith(
+				expect.objectContaining({
+					reason: 'rejected',
+					status: 400,
+					attempts: 1,
+					entries: [expect.objectContaining({ message: 'bad request' })],
+				}),
+			);
+			expect(getLokiStats()).toEqual({ droppedBatches: 1, droppedEntries: 1, failedPushes: 1 });
+		});
+
+		it('should drop entries after the maximum attempt count', async () => {
+			const onLokiError = vi.fn();
+			configureLogging({ onLokiError });
+			fetchMock.mockResolvedValue({ ok: false, status: 502 });
+			lokiLog('INFO', 'doomed');
+			await flushLogs();
+			await flushLogs();
+			expect(onLokiError).not.toHaveBeenCalled();
+			await flushLogs();
+			expect(_getBufferLength()).toBe(0);
+			expect(onLokiError).toHaveBeenCalledWith(
+				expect.objectContaining({ reason: 'max-attempts', attempts: 3 }),
+			);
+			expect(getLokiStats().droppedEntries).toBe(1);
+		});
+
+		it('should survive an error callback that throws', async () => {
+			configureLogging({
+				onLokiError: () => {
+					throw new Error('callback failure');
+				},
+			});
+			fetchMock.mockResolvedValueOnce({ ok: false, status: 400 });
+			lokiLog('INFO', 'callback throws');
+			await expect(flushLogs()).resolves.toBeUndefined();
+			expect(getLokiStats().droppedBatches).toBe(1);
+		});
+
+		it('should reset failure statistics with _resetBuffer', async () => {
+			fetchMock.mockResolvedValueOnce({ ok: false, status: 400 });
+			lokiLog('INFO', 'counted');
+			await flushLogs();
+			_resetBuffer();
+			expect(getLokiStats()).toEqual({ droppedBatches: 0, droppedEntries: 0, failedPushes: 0 });
+		});
+
+		describe('backoff timing', () => {
+			beforeEach(() => {
+				vi.useFakeTimers();
+				vi.spyOn(Math, 'random').mockReturnValue(1);
+			});
+
+			afterEach(() => {
+				vi.useRealTimers();
+			});
+
+			it('should back off exponentially between attempts', async () => {
+				fetchMock
+					.mockResolvedValueOnce({ ok: false, status: 500 })
+					.mockResolvedValueOnce({ ok: false, status: 500 });
+				lokiLog('INFO', 'backoff');
+				await flushLogs();
+				await vi.advanceTimersByTimeAsync(99);
+				expect(fetchMock).toHaveBeenCalledTimes(1);
+				await vi.advanceTimersByTimeAsync(1);
+				expect(fetchMock).toHaveBeenCalledTimes(2);
+				await vi.advanceTimersByTimeAsync(199);
+				expect(fetchMock).toHaveBeenCalledTimes(2);
+				await vi.advanceTimersByTimeAsync(1);
+				expect(fetchMock).toHaveBeenCalledTimes(3);
+				expect(_getBufferLength()).toBe(0);
+			});
+
+			it('should honor Retry-After on 429 responses', async () => {
+				fetchMock.mockResolvedValueOnce({
+					ok: false,
+					status: 429,
+					headers: new Headers({ 'Retry-After': '0.5' }),
+				});
+				lokiLog('INFO', 'retry after');
+				await flushLogs();
+				await vi.advanceTimersByTimeAsync(499);
+				expect(fetchMock).toHaveBeenCalledTimes(1);
+				await vi.advanceTimersByTimeAsync(1);
+				expect(fetchMock).toHaveBeenCalledTimes(2);
+			});
+		});
+	});
+
+	describe('bounded buffer', () => {
+		it('should drop the oldest entries by default when full', () => {
+			const onLokiError = vi.fn();
+			configureLogging({ lokiUrl: 'http://loki:3100', lokiBuffer: { maxEntries: 2 }, onLokiError });
+			lokiLog('INFO', 'one');
+			lokiLog('INFO', 'two');
+			lokiLog('INFO', 'three');
+			expect(_getBufferLength()).toBe(2);
+			expect(onLokiError).toHaveBeenCalledWith(
+				expect.objectContaining({
+					reason: 'overflow',
+					entries: [expect.objectContaining({ message: 'one' })],
+				}),
+			);
+			expect(getLokiStats().droppedEntries).toBe(1);
+		});
+
+		it('should drop the newest entry with drop-newest', async () => {
+			configureLogging({
+				lokiUrl: 'http://loki:3100',
+				lokiBuffer: { maxEntries: 2, overflow: 'drop-newest' },
+			});
+			lokiLog('INFO', 'one');
+			lokiLog('INFO', 'two');
+			lokiLog('INFO', 'three');
+			await flushLogs();
+			const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+			const msgs = body.streams[0].values.map((v: [string, string]) => JSON.parse(v[1]).msg);
+			expect(msgs).toEqual(['one', 'two']);
+		});
+
+		it('should drop debug entries first with drop-debug-first', async () => {
+			configureLogging({
+				lokiUrl: 'http://loki:3100',
+				lokiBuffer: { maxEntries: 2, overflow: 'drop-debug-first' },
+			});
+			lokiLog('INFO', 'info');
+			lokiLog('DEBUG', 'debug');
+			lokiLog('ERROR', 'error');
+			await flushLogs();
+			const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+			const msgs = body.streams[0].values.map((v: [string, string]) => JSON.parse(v[1]).msg);
+			expect(msgs).toEqual(['info', 'error']);
+		});
+
+		it('should fall back to the oldest entry when no debug entries remain', () => {
+			configureLogging({
+				lokiUrl: 'http://loki:3100',
+				lokiBuffer: { maxEntries: 1, overflow: 'drop-debug-first' },
+			});
+			lokiLog('INFO', 'first');
+			lokiLog('WARN', 'second');
+			expect(_getBufferLength()).toBe(1);
+		});
+
+		it('should enforce the byte limit', () => {
+			configureLogging({ lokiUrl: 'http://loki:3100', lokiBuffer: { maxBytes: 300 } });
+			for (let i = 0; i < 10; i++) {
+				lokiLog('INFO', 'x'.repeat(50));
+			}
+			expect(_getBufferLength()).toBeLessThan(10);
+			expect(_getBufferLength()).toBeGreaterThan(0);
+		});
+
+		it('should flush early when the batch size is reached', async () => {
+			configureLogging({ lokiUrl: 'http://loki:3100', lokiBuffer: { batchSize: 3 } });
+			lokiLog('INFO', 'a');
+			lokiLog('INFO', 'b');
+			expect(fetchMock).not.toHaveBeenCalled();
+			lokiLog('INFO', 'c');
+			await flushLogs();
+			expect(fetchMock).toHaveBeenCalledTimes(1);
+			const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+			expect(body.streams[0].values).toHaveLength(3);
+		});
+
+		it('should split pushes that exceed the request size limit', async () => {
+			configureLogging({
+				lokiUrl: 'http://loki:3100',
+				lokiBuffer: { maxRequestBytes: 1500 },
+			});
+			for (let i = 0; i < 6; i++) {
+				lokiLog('INFO', `${i}`.repeat(200));
+			}
+			await flushLogs();
+			expect(fetchMock.mock.calls.length).toBeGreaterThan(1);
+			const total = fetchMock.mock.calls.reduce(
+				(sum: number, call: [string, { body: string }]) =>
+					sum + JSON.parse(call[1].body).streams[0].values.length,
+				0,
+			);
+			expect(total).toBe(6);
+		});
+
+		it('should re-queue unsent requests when a split push fails', async () => {
+			configureLogging({
+				lokiUrl: 'http://loki:3100',
+				lokiBuffer: { maxRequestBytes: 1500 },
+			});
+			fetchMock.mockResolvedValueOnce({ ok: true }).mockResolvedValueOnce({ ok: false, status: 503 });
+			for (let i = 0; i < 6; i++) {
+				lokiLog('INFO', `${i}`.repeat(200));
+			}
+			await flushLogs();
+			expect(fetchMock).toHaveBeenCalledTimes(2);
+			const sent = JSON.parse(fetchMock.mock.calls[0][1].body).streams[0].values.length;
+			expect(_getBufferLength()).toBe(6 - sent);
+		});
+	});
+
 	describe('flush on timer', () => {
 		beforeEach(() => {
 			vi.useFakeTimers();
@@ -288,6 +924,253 @@ describe('logger (Loki push logger)', () => {
 		});
 	});
 
+	describe('disk spool', () => {
+		let tmpDir: string;
+
+		beforeEach(async () => {
+			tmpDir = await fs.mkdtemp(path.join('/tmp', 'loki-logger-test-'));
+			configureLogging({
+				lokiUrl: 'http://loki:3100',
+				nodeEnv: 'test',
+				logsDir: tmpDir,
+				lokiSpool: {},
+			});
+		});
+
+		afterEach(async () => {
+			await fs.rm(tmpDir, { recursive: true, force: true });
+		});
+
+		function sentMessages(callIndex: number): string[] {
+			const body = JSON.parse(fetchMock.mock.calls[callIndex][1].body);
+			return body.streams[0].values.map((v: [string, string]) => JSON.parse(v[1]).msg);
+		}
+
+		it('should spool entries under logsDir when a push fails', async () => {
+			fetchMock.mockRejectedValueOnce(new Error('Network error'));
+			lokiLog('INFO', 'spooled');
+			await flushLogs();
+			expect(_getBufferLength()).toBe(0);
+			const files = await fs.readdir(path.join(tmpDir, 'loki-spool'));
+			expect(files.some((f) => f.endsWith('.ndjson'))).toBe(true);
+		});
+
+		it('should replay spooled entries before newer entries', async () => {
+			fetchMock.mockRejectedValueOnce(new Error('Network error'));
+			lokiLog('INFO', 'old');
+			await flushLogs();
+			lokiLog('INFO', 'new');
+			await flushLogs();
+			expect(sentMessages(1)).toEqual(['old']);
+			expect(sentMessages(2)).toEqual(['new']);
+		});
+
+		it('should replay the spool even when the buffer is empty', async () => {
+			fetchMock.mockRejectedValueOnce(new Error('Network error'));
+			lokiLog('INFO', 'pending');
+			await flushLogs();
+			await flushLogs();
+			expect(sentMessages(1)).toEqual(['pending']);
+			const files = await fs.readdir(path.join(tmpDir, 'loki-spool'));
+			expect(files.filter((f) => f.endsWith('.ndjson'))).toHaveLength(0);
+		});
+
+		it('should spool new entries while the spool cannot be replayed', async () => {
+			fetchMock
+				.mockRejectedValueOnce(new Error('down'))
+				.mockRejectedValueOnce(new Error('still down'));
+			lokiLog('INFO', 'first');
+			await flushLogs();
+			lokiLog('INFO', 'second');
+			await flushLogs();
+			await flushLogs();
+			expect(sentMessages(2)).toEqual(['first']);
+			expect(sentMessages(3)).toEqual(['second']);
+		});
+
+		it('should use a custom spool directory', async () => {
+			const dir = path.join(tmpDir, 'custom');
+			configureLogging({ lokiSpool: { dir } });
+			fetchMock.mockRejectedValueOnce(new Error('Network error'));
+			lokiLog('INFO', 'custom dir');
+			await flushLogs();
+			expect((await fs.readdir(dir)).length).toBeGreaterThan(0);
+		});
+
+		it('should report entries evicted by the spool size cap', async () => {
+			const onLokiError = vi.fn();
+			configureLogging({ lokiSpool: { maxBytes: 150, segmentBytes: 10 }, onLokiError });
+			fetchMock.mockRejectedValue(new Error('down'));
+			for (let i = 0; i < 4; i++) {
+				lokiLog('INFO', `entry ${i}`);
+				await flushLogs();
+			}
+			expect(onLokiError).toHaveBeenCalledWith(
+				expect.objectContaining({ reason: 'spool-overflow' }),
+			);
+		});
+
+		it('should spool the remaining buffer on shutdown timeout', async () => {
+			fetchMock.mockReturnValue(new Promise(() => {}));
+			lokiLog('INFO', 'in flight');
+			flushLogs();
+			await vi.waitFor(() => expect(fetchMock).toHaveBeenCalled());
+			lokiLog('INFO', 'still buffered');
+			await shutdownLogging({ timeoutMs: 30 });
+			expect(getLokiStats().droppedEntries).toBe(0);
+			const dir = path.join(tmpDir, 'loki-spool');
+			const files = (await fs.readdir(dir)).filter((f) => f.endsWith('.ndjson'));
+			const content = await fs.readFile(path.join(dir, files[0]!), 'utf8');
+			expect(JSON.parse(content.trim()).message).toBe('still buffered');
+		});
+	});
+
+	describe('shutdownLogging', () => {
+		beforeEach(() => {
+			configureLogging({
+				lokiUrl: 'http://loki:3100',
+				nodeEnv: 'test',
+				lokiRetry: { maxAttempts: 5, baseDelayMs: 5, maxDelayMs: 10 },
+			});
+		});
+
+		it('should stop the flush timer and drain the buffer', async () => {
+			lokiLog('INFO', 'final words');
+			expect(_getFlushTimer()).not.toBeNull();
+			await shutdownLogging();
+			expect(_getFlushTimer()).toBeNull();
+			expect(_getBufferLength()).toBe(0);
+			expect(fetchMock).toHaveBeenCalledTimes(1);
+		});
+
+		it('should resolve immediately when there is nothing to flush', async () => {
+			await shutdownLogging();
+			expect(fetchMock).not.toHaveBeenCalled();
+		});
+
+		it('should keep retrying failed pushes until they succeed', async () => {
+			fetchMock
+				.mockResolvedValueOnce({ ok: false, status: 503 })
+				.mockResolvedValueOnce({ ok: false, status: 503 });
+			lokiLog('INFO', 'eventually');
+			await shutdownLogging({ timeoutMs: 1000 });
+			expect(fetchMock).toHaveBeenCalledTimes(3);
+			expect(_getBufferLength()).toBe(0);
+			expect(_getFlushTimer()).toBeNull();
+			expect(getLokiStats().droppedEntries).toBe(0);
+		});
+
+		it('should wait for a flush that is already in flight', async () => {
+			let resolveFetch: (value: { ok: boolean }) => void = () => {};
+			fetchMock.mockReturnValueOnce(new Promise((resolve) => (resolveFetch = resolve)));
+			lokiLog('INFO', 'in flight');
+			const flushing = flushLogs();
+			let done = false;
+			const shutdown = shutdownLogging().then(() => (done = true));
+			await new Promise((r) => setTimeout(r, 10));
+			expect(done).toBe(false);
+			resolveFetch({ ok: true });
+			await flushing;
+			await shutdown;
+			expect(done).toBe(true);
+		});
+
+		it('should drop what is left when the timeout expires', async () => {
+			const onLokiError = vi.fn();
+			configureLogging({
+				onLokiError,
+				lokiRetry: { maxAttempts: 1000, baseDelayMs: 5, maxDelayMs: 10 },
+			});
+			fetchMock.mockResolvedValue({ ok: false, status: 503 });
+			lokiLog('INFO', 'lost');
+			await shutdownLogging({ timeoutMs: 30 });
+			expect(_getBufferLength()).toBe(0);
+			expect(_getFlushTimer()).toBeNull();
+			expect(onLokiError).toHaveBeenLastCalledWith(
+				expect.objectContaining({ reason: 'shutdown' }),
+			);
+		});
+
+		it('should honour the deadline passed to closeTransports', async () => {
+			configureLogging({
+				transports: [lokiTransport()],
+				lokiRetry: { maxAttempts: 1000, baseDelayMs: 5, maxDelayMs: 10 },
+			});
+			fetchMock.mockResolvedValue({ ok: false, status: 503 });
+			lokiLog('INFO', 'closing');
+			const started = Date.now();
+			await closeTransports(undefined, Date.now() + 30);
+			expect(Date.now() - started).toBeLessThan(1000);
+			expect(_getBufferLength()).toBe(0);
+		});
+
+		it('should not hang on a push that never completes', async () => {
+			fetchMock.mockReturnValue(new Promise(() => {}));
+			lokiLog('INFO', 'stuck');
+			const started = Date.now();
+			await shutdownLogging({ timeoutMs: 30 });
+			expect(Date.now() - started).toBeLessThan(1000);
+		});
+	});
+
+	describe('installShutdownHandlers', () => {
+		let exitSpy: ReturnType<typeof vi.spyOn>;
+
+		beforeEach(() => {
+			configureLogging({ lokiUrl: 'http://loki:3100', nodeEnv: 'test' });
+			exitSpy = vi.spyOn(process, 'exit').mockImplementation((() => undefined) as never);
+		});
+
+		it('should register and remove signal and beforeExit handlers', () => {
+			const before = {
+				SIGTERM: process.listenerCount('SIGTERM'),
+				SIGINT: process.listenerCount('SIGINT'),
+				beforeExit: process.listenerCount('beforeExit'),
+			};
+			const uninstall = installShutdownHandlers();
+			expect(process.listenerCount('SIGTERM')).toBe(before.SIGTERM + 1);
+			expect(process.listenerCount('SIGINT')).toBe(before.SIGINT + 1);
+			expect(process.listenerCount('beforeExit')).toBe(before.beforeExit + 1);
+			uninstall();
+			expect(process.listenerCount('SIGTERM')).toBe(before.SIGTERM);
+			expect(process.listenerCount('SIGINT')).toBe(before.SIGINT);
+			expect(process.listenerCount('beforeExit')).toBe(before.beforeExit);
+		});
+
+		it('should flush and exit on SIGTERM', async () => {
+			const uninstall = installShutdownHandlers({ signals: ['SIGTERM'], exitOnSignal: true });
+			const handler = process.listeners('SIGTERM').at(-1) as (signal: NodeJS.Signals) => void;
+			lokiLog('INFO', 'terminating');
+			handler('SIGTERM');
+			await vi.waitFor(() => expect(exitSpy).toHaveBeenCalledWith(143));
+			expect(fetchMock).toHaveBeenCalledTimes(1);
+			expect(_getBufferLength()).toBe(0);
+			uninstall();
+		});
+
+		it('should not exit when exitOnSignal is false', async () => {
+			const uninstall = installShutdownHandlers({ signals: ['SIGINT'], exitOnSignal: false });
+			const handler = process.listeners('SIGINT').at(-1) as (signal: NodeJS.Signals) => void;
+			lokiLog('INFO', 'interrupted');
+			handler('SIGINT');
+			await vi.waitFor(() => expect(fetchMock).toHaveBeenCalled());
+			await shutdownLogging();
+			expect(exitSpy).not.toHaveBeenCalled();
+			uninstall();
+		});
+
+		it('should flush buffered logs on beforeExit', async () => {
+			const uninstall = installShutdownHandlers({ signals: [] });
+			const handler = process.listeners('beforeExit').at(-1) as () => void;
+			lokiLog('INFO', 'before exit');
+			handler();
+			await vi.waitFor(() => expect(_getBufferLength()).toBe(0));
+			expect(fetchMock).toHaveBeenCalledTimes(1);
+			expect(exitSpy).not.toHaveBeenCalled();
+			uninstall();
+		});
+	});
+
 	describe('_resetBuffer', () => {
 		it('should clear buffer', () => {
 			configureLogging({ lokiUrl: 'http://loki:3100' });
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+	formatLabels,
+	encodeJsonPushRequest,
+	encodeProtobufPushRequest,
+} from '../src/loki-encoding.js';
+import type { LokiStream, LokiValue } from '../src/loki-encoding.js';
+import { decodeMessage, decodeString } from '../src/protobuf.js';
+import { snappyUncompress } from '../src/snappy.js';
+import {
+	lokiLog,
+	flushLogs,
+	_resetBuffer,
+	configureLogging,
+	resetLoggingConfig,
+} from '../src/index.js';
+
+function fieldsOf(bytes: Uint8Array, field: number): Uint8Array[] {
+	return decodeMessage(bytes)
+		.filter((f) => f.field === field && f.wireType === 2)
+		.map((f) => f.value as Uint8Array);
+}
+
+function varintOf(bytes: Uint8Array, field: number): bigint {
+	const found = decodeMessage(bytes).find((f) => f.field === field && f.wireType === 0);
+	return (found?.value as bigint | undefined) ?? 0n;
+}
+
+function decodePushRequest(body: Uint8Array): LokiStream[] {
+	const request = snappyUncompress(body);
+	return fieldsOf(request, 1).map((stream) => {
+		const labels = decodeString(fieldsOf(stream, 1)[0]!);
+		const labelSet: Record<string, string> = {};
+		for (const match of labels.matchAll(/(\w+)="((?:[^"\\]|\\.)*)"/g)) {
+			labelSet[match[1]!] = match[2]!.replace(/\\(.)/g, (_, c) => (c === 'n' ? '\n' : c));
+		}
+		const values = fieldsOf(stream, 2).map((entry): LokiValue => {
+			const timestamp = fieldsOf(entry, 1)[0]!;
+			const ns = varintOf(timestamp, 1) * 1000000000n + varintOf(timestamp, 2);
+			const value: LokiValue = [ns.toString(), decodeString(fieldsOf(entry, 2)[0]!)];
+			const metadata = fieldsOf(entry, 3);
+			if (metadata.length > 0) {
+				value[2] = Object.fromEntries(
+					metadata.map((pair) => [
+						decodeString(fieldsOf(pair, 1)[0]!),
+						decodeString(fieldsOf(pair, 2)[0]!),
+					]),
+				);
+			}
+			return value;
+		});
+		return { stream: labelSet, values };
+	});
+}
+
+describe('loki-encoding', () => {
+	const streams: LokiStream[] = [
+		{
+			stream: { job: 'api', environment: 'test' },
+			values: [
+				['1767225600123000000', '{"level":"INFO","msg":"first"}'],
+				['1767225601000000000', '{"level":"WARN","msg":"second"}', { trace_id: 'abc', user: 'u1' }],
+			],
+		},
+		{
+			stream: { job: 'api', component: 'quote"d\\' },
+			values: [['1767225602456789000', '{"level":"ERROR","msg":"third ✓"}']],
+		},
+	];
+
+	describe('formatLabels', () => {
+		it('should format sorted labels in Prometheus syntax', () => {
+			expect(formatLabels({ job: 'api', env: 'prod' })).toBe('{env="prod", job="api"}');
+		});
+
+		it('should escape quotes, backslashes and newlines', () => {
+			expect(formatLabels({ a: 'x"y\\z\nw' })).toBe('{a="x\\"y\\\\z\\nw"}');
+		});
+	});
+
+	describe('encodeJsonPushRequest', () => {
+		it('should wrap streams in a push request', () => {
+			expect(JSON.parse(encodeJsonPushRequest(streams))).toEqual({ streams });
+		});
+	});
+
+	describe('encodeProtobufPushRequest', () => {
+		it('should produce a snappy-compressed PushRequest matching the JSON form', () => {
+			const decoded = decodePushRequest(encodeProtobufPushRequest(streams));
+			expect(decoded).toEqual(JSON.parse(encodeJsonPushRequest(streams)).streams);
+		});
+
+		it('should round-trip large batches with long and non-ASCII values', () => {
+			const large: LokiStream[] = [
+				{
+					stream: { job: 'api' },
+					values: Array.from({ length: 300 }, (_, i): LokiValue => [
+						`${1767225600000000000n + BigInt(i)}`,
+						`{"msg":"${'ü✓'.repeat(i % 7)}${'x'.repeat(i)}"}`,
+						{ request_id: `r${i}`, note: 'é'.repeat(i % 70) },
+					]),
+				},
+			];
+			expect(decodePushRequest(encodeProtobufPushRequest(large))).toEqual(large);
+		});
+
+		it('should encode an empty request', () => {
+			expect(decodePushRequest(encodeProtobufPushRequest([]))).toEqual([]);
+		});
+	});
+
+	describe('flushLogs with protobuf encoding', () => {
+		let fetchMock: ReturnType<typeof vi.fn>;
+
+		beforeEach(() => {
+			resetLoggingConfig();
+			_resetBuffer();
+			vi.spyOn(console, 'log').mockImplementation(() => {});
+			fetchMock = vi.fn().mockResolvedValue({ ok: true });
+			vi.stubGlobal('fetch', fetchMock);
+		});
+
+		afterEach(() => {
+			vi.restoreAllMocks();
+			vi.unstubAllGlobals();
+			_resetBuffer();
+		});
+
+		it('should send protobuf with the matching content type', async () => {
+			configureLogging({ lokiUrl: 'http://loki:3100', lokiEncoding: 'protobuf' });
+			lokiLog('INFO', 'proto');
+			await flushLogs();
+			const init = fetchMock.mock.calls[0][1];
+			expect(init.headers['Content-Type']).toBe('application/x-protobuf');
+			expect(init.body).toBeInstanceOf(Uint8Array);
+		});
+
+		it('should send the same streams as the JSON path', async () => {
+			vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00.000Z') });
+			try {
+				configureLogging({
+					lokiUrl: 'http://loki:3100',
+					lokiLabels: { job: 'api' },
+					lokiStreamLabelKeys: ['component'],
+				});
+				const logAll = () => {
+					lokiLog('INFO', 'one', { component: 'auth', userId: 'u1' });
+					lokiLog('WARN', 'two', { component: 'db' }, { request_id: 'r1' });
+					lokiLog('ERROR', 'three');
+				};
+
+				logAll();
+				await flushLogs();
+				configureLogging({ lokiEncoding: 'protobuf' });
+				logAll();
+				await flushLogs();
+
+				const json = JSON.parse(fetchMock.mock.calls[0][1].body).streams;
+				const protobuf = decodePushRequest(fetchMock.mock.calls[1][1].body);
+				expect(protobuf).toEqual(json);
+			} finally {
+				vi.useRealTimers();
+			}
+		});
+	});
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { createLokiSpool } from '../src/loki-spool.js';
+import type { LokiLogEntry } from '../src/types.js';
+
+function entry(message: string): LokiLogEntry {
+	return { level: 'INFO', message, timestamp: '2026-01-01T00:00:00.000Z', labels: {} };
+}
+
+describe('loki-spool', () => {
+	let tmpDir: string;
+
+	beforeEach(async () => {
+		tmpDir = await fs.mkdtemp(path.join('/tmp', 'loki-spool-test-'));
+	});
+
+	afterEach(async () => {
+		try {
+			await fs.rm(tmpDir, { recursive: true, force: true });
+		} catch {
+
+		}
+	});
+
+	function spoolDir(): string {
+		return path.join(tmpDir, 'spool');
+	}
+
+	describe('append and read', () => {
+		it('should report nothing pending for an empty spool', async () => {
+			const spool = createLokiSpool({ dir: spoolDir(), maxBytes: 1e6, segmentBytes: 1e5 });
+			expect(await spool.hasPending()).toBe(false);
+			expect(await spool.read(10)).toBeNull();
+		});
+
+		it('should write entries as NDJSON segments', async () => {
+			const spool = createLokiSpool({ dir: spoolDir(), maxBytes: 1e6, segmentBytes: 1e5 });
+			await spool.append([entry('a'), entry('b')]);
+			const files = await fs.readdir(spoolDir());
+			expect(files).toEqual(['segment-000000000001.ndjson']);
+			const content = await fs.readFile(path.join(spoolDir(), files[0]!), 'utf8');
+			expect(content.trim().split('\n').map((l) => JSON.parse(l).message)).toEqual(['a', 'b']);
+		});
+
+		it('should read entries back in order', async () => {
+			const spool = createLokiSpool({ dir: spoolDir(), maxBytes: 1e6, segmentBytes: 1e5 });
+			await spool.append([entry('a'), entry('b')]);
+			await spool.append([entry('c')]);
+			const batch = await spool.read(10);
+			expect(batch?.entries.map((e) => e.message)).toEqual(['a', 'b', 'c']);
+			expect(batch?.complete).toBe(true);
+		});
+
+		it('should roll over to a new segment when the segment size is reached', async () => {
+			const spool = createLokiSpool({ dir: spoolDir(), maxBytes: 1e6, segmentBytes: 50 });
+			await spool.append([entry('a')]);
+			await spool.append([entry('b')]);
+			const files = await fs.readdir(spoolDir());
+			expect(files.filter((f) => f.startsWith('segment-'))).toHaveLength(2);
+		});
+
+		it('should start a new segment after the active one has been read', async () => {
+			const spool = createLokiSpool({ dir: spoolDir(), maxBytes: 1e6, segmentBytes: 1e5 });
+			await spool.append([entry('a')]);
+			const batch = await spool.read(10);
+			await spool.append([entry('b')]);
+			await spool.ack(batch!);
+			const next = await spool.read(10);
+			expect(next?.entries.map((e) => e.message)).toEqual(['b']);
+		});
+	});
+
+	describe('acknowledgement', () => {
+		it('should delete fully acknowledged segments', async () => {
+			const spool = createLokiSpool({ dir: spoolDir(), maxBytes: 1e6, segmentBytes: 1e5 });
+			await spool.append([entry('a')]);
+			await spool.ack((await spool.read(10))!);
+			expect(await spool.hasPending()).toBe(false);
+			const files = await fs.readdir(spoolDir());
+			expect(files.filter((f) => f.startsWith('segment-'))).toHaveLength(0);
+		});
+
+		it('should track partial progress with a cursor', async () => {
+			const spool = createLokiSpool({ dir: spoolDir(), maxBytes: 1e6, segmentBytes: 1e5 });
+			await spool.append([entry('a'), entry('b'), entry('c')]);
+			const first = await spool.read(2);
+			expect(first?.complete).toBe(false);
+			await spool.ack(first!);
+			const second = await spool.read(2);
+			expect(second?.entries.map((e) => e.message)).toEqual(['c']);
+			expect(second?.complete).toBe(true);
+		});
+
+		it('should not advance without an acknowledgement', async () => {
+			const spool = createLokiSpool({ dir: spoolDir(), maxBytes: 1e6, segmentBytes: 1e5 });
+			await spool.append([entry('a'), entry('b')]);
+			await spool.read(1);
+			const again = await spool.read(1);
+			expect(again?.entries.map((e) => e.message)).toEqual(['a']);
+		});
+	});
+
+	describe('restart recovery', () => {
+		it('should resume from existing segments and cursor', async () => {
+			const first = createLokiSpool({ dir: spoolDir(), maxBytes: 1e6, segmentBytes: 1e5 });
+			await first.append([entry('a'), entry('b'), entry('c')]);
+			await first.ack((await first.read(1))!);
+
+			const second = createLokiSpool({ dir: spoolDir(), maxBytes: 1e6, segmentBytes: 1e5 });
+			expect(await second.hasPending()).toBe(true);
+			const batch = await second.read(10);
+			expect(batch?.entries.map((e) => e.message)).toEqual(['b', 'c']);
+		});
+
+		it('should continue segment numbering after a restart', async () => {
+			const first = createLokiSpool({ dir: spoolDir(), maxBytes: 1e6, segmentBytes: 1e5 });
+			await first.append([entry('a')]);
+
+			const second = createLokiSpool({ dir: spoolDir(), maxBytes: 1e6, segmentBytes: 1e5 });
+			await second.append([entry('b')]);
+			const files = (await fs.readdir(spoolDir())).sort();
+			expect(files).toEqual(['segment-000000000001.ndjson', 'segment-000000000002.ndjson']);
+		});
+
+		it('should skip corrupt lines', async () => {
+			await fs.mkdir(spoolDir(), { recursive: true });
+			await fs.writeFile(
+				path.join(spoolDir(), 'segment-000000000001.ndjson'),
+				`${JSON.stringify(entry('ok'))}\n{not json\n`,
+			);
+			const spool = createLokiSpool({ dir: spoolDir(), maxBytes: 1e6, segmentBytes: 1e5 });
+			const batch = await spool.read(10);
+			expect(batch?.entries.map((e) => e.message)).toEqual(['ok']);
+		});
+	});
+
+	describe('size cap', () => {
+		it('should evict the oldest segments when over the cap', async () => {
+			const onEvict = vi.fn();
+			const spool = createLokiSpool({ dir: spoolDir(), maxBytes: 200, segmentBytes: 50, onEvict });
+			for (const msg of ['a', 'b', 'c', 'd']) {
+				await spool.append([entry(msg)]);
+			}
+			expect(await spool.totalBytes()).toBeLessThanOrEqual(200);
+			expect(onEvict).toHaveBeenCalledWith([expect.objectContaining({ message: 'a' })]);
+			const batch = await spool.read(10);
+			expect(batch?.entries[0]?.message).not.toBe('a');
+		});
+	});
+});
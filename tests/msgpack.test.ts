@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { decodeMsgpack, encodeMsgpack, MsgpackExt } from '../src/msgpack.js';
+
+function roundTrip(value: unknown): unknown {
+	return decodeMsgpack(encodeMsgpack(value)).value;
+}
+
+describe('msgpack', () => {
+	describe('encodeMsgpack', () => {
+		it('should use fix formats for small values', () => {
+			expect([...encodeMsgpack(5)]).toEqual([0x05]);
+			expect([...encodeMsgpack(-1)]).toEqual([0xff]);
+			expect([...encodeMsgpack('ab')]).toEqual([0xa2, 0x61, 0x62]);
+			expect([...encodeMsgpack([true, false, null])]).toEqual([0x93, 0xc3, 0xc2, 0xc0]);
+			expect([...encodeMsgpack({ a: 1 })]).toEqual([0x81, 0xa1, 0x61, 0x01]);
+		});
+
+		it('should use sized formats for larger values', () => {
+			expect([...encodeMsgpack(200)]).toEqual([0xcc, 200]);
+			expect([...encodeMsgpack(65535)]).toEqual([0xcd, 0xff, 0xff]);
+			expect([...encodeMsgpack(-200)]).toEqual([0xd1, 0xff, 0x38]);
+			expect([...encodeMsgpack('x'.repeat(40)).subarray(0, 2)]).toEqual([0xd9, 40]);
+			expect([...encodeMsgpack(Buffer.from([1, 2]))]).toEqual([0xc4, 2, 1, 2]);
+		});
+
+		it('should encode floats as float64', () => {
+			expect([...encodeMsgpack(1.5)]).toEqual([0xcb, 0x3f, 0xf8, 0, 0, 0, 0, 0, 0]);
+		});
+
+		it('should encode fixext values', () => {
+			const ext = new MsgpackExt(0, Buffer.from([0, 0, 0, 1, 0, 0, 0, 2]));
+			expect([...encodeMsgpack(ext)]).toEqual([0xd7, 0x00, 0, 0, 0, 1, 0, 0, 0, 2]);
+		});
+
+		it('should skip undefined map values', () => {
+			expect(roundTrip({ a: undefined, b: 1 })).toEqual({ b: 1 });
+		});
+	});
+
+	describe('round trip', () => {
+		it('should round-trip nested structures', () => {
+			const value = {
+				str: 'héllo',
+				int: 123456789,
+				neg: -70000,
+				big: 2 ** 40,
+				float: 3.25,
+				list: [1, 'two', [3]],
+				nested: { ok: true, none: null },
+			};
+			expect(roundTrip(value)).toEqual(value);
+		});
+
+		it('should round-trip long strings and arrays', () => {
+			const value = { text: 'y'.repeat(70000), items: Array.from({ length: 20 }, (_, i) => i) };
+			expect(roundTrip(value)).toEqual(value);
+		});
+
+		it('should round-trip binary and extension values', () => {
+			const decoded = roundTrip([Buffer.from('bin'), new MsgpackExt(7, Buffer.from('abc'))]) as [
+				Uint8Array,
+				MsgpackExt,
+			];
+			expect(Buffer.from(decoded[0]).toString()).toBe('bin');
+			expect(decoded[1].type).toBe(7);
+			expect(Buffer.from(decoded[1].data).toString()).toBe('abc');
+		});
+	});
+
+	describe('decodeMsgpack', () => {
+		it('should return the offset after the first value', () => {
+			const stream = Buffer.concat([encodeMsgpack('a'), encodeMsgpack(2)]);
+			const first = decodeMsgpack(stream);
+			expect(first).toEqual({ value: 'a', offset: 2 });
+			expect(decodeMsgpack(stream, first.offset).value).toBe(2);
+		});
+
+		it('should throw a RangeError on truncated input', () => {
+			const encoded = encodeMsgpack({ key: 'value' });
+			expect(() => decodeMsgpack(encoded.subarray(0, encoded.length - 2))).toThrow(RangeError);
+		});
+	});
+});
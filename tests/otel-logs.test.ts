@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { logs } from '@opentelemetry/api-logs';
+import type { LogRecord as OtelLogRecord, LoggerProvider } from '@opentelemetry/api-logs';
+import { context, ROOT_CONTEXT, createContextKey } from '@opentelemetry/api';
+import * as logsApi from '@opentelemetry/api-logs';
+import {
+	structuredLogger,
+	createScopedLogger,
+	lokiLog,
+	configureLogging,
+	resetLoggingConfig,
+	_setLogsApi,
+} from '../src/index.js';
+
+function memoryProvider(): LoggerProvider & { emitted: OtelLogRecord[]; scopes: string[] } {
+	const emitted: OtelLogRecord[] = [];
+	const scopes: string[] = [];
+	return {
+		emitted,
+		scopes,
+		getLogger: (name: string) => {
+			scopes.push(name);
+			return { emit: (record: OtelLogRecord) => emitted.push(record) };
+		},
+	};
+}
+
+describe('otel-logs', () => {
+	let provider: ReturnType<typeof memoryProvider>;
+
+	beforeEach(() => {
+		resetLoggingConfig();
+		_setLogsApi(logsApi);
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+		provider = memoryProvider();
+	});
+
+	afterEach(() => {
+		logs.disable();
+		vi.restoreAllMocks();
+	});
+
+	it('should not emit when no global LoggerProvider is registered', async () => {
+		await structuredLogger.info('nobody listening');
+		expect(provider.emitted).toHaveLength(0);
+	});
+
+	it('should work with api-logs versions without ProxyLoggerProvider', async () => {
+		const { ProxyLoggerProvider: _proxy, ...legacyApi } = logsApi;
+		_setLogsApi(legacyApi as typeof logsApi);
+		await structuredLogger.info('no provider yet');
+		logs.setGlobalLoggerProvider(provider);
+		await structuredLogger.info('legacy api');
+		expect(provider.emitted.map((r) => r.body)).toEqual(['legacy api']);
+	});
+
+	it('should emit records through the global LoggerProvider', async () => {
+		logs.setGlobalLoggerProvider(provider);
+		await structuredLogger.warn({ component: 'auth', userId: 'u1', attempts: 3 }, 'login throttled');
+
+		expect(provider.scopes).toEqual(['@tummycrypt/tinyland-logging']);
+		expect(provider.emitted).toEqual([
+			{
+				timestamp: expect.any(Number),
+				severityNumber: 13,
+				severityText: 'WARN',
+				body: 'login throttled',
+				attributes: {
+					component: 'auth',
+					userId: 'u1',
+					attempts: 3,
+					'log.source': 'structured',
+				},
+				context: ROOT_CONTEXT,
+			},
+		]);
+	});
+
+	it('should map every level to its severity number', async () => {
+		logs.setGlobalLoggerProvider(provider);
+		await structuredLogger.debug('d');
+		await structuredLogger.info('i');
+		await structuredLogger.warn('w');
+		await structuredLogger.error('e');
+		expect(provider.emitted.map((r) => r.severityNumber)).toEqual([5, 9, 13, 17]);
+	});
+
+	it('should pass the active context', async () => {
+		logs.setGlobalLoggerProvider(provider);
+		const active = ROOT_CONTEXT.setValue(createContextKey('request'), 'r1');
+		vi.spyOn(context, 'active').mockReturnValue(active);
+		await structuredLogger.info('in context');
+		expect(provider.emitted[0]!.context).toBe(active);
+	});
+
+	it('should include scoped logger defaults as attributes', async () => {
+		logs.setGlobalLoggerProvider(provider);
+		await createScopedLogger({ component: 'db' }).error({ table: 'users' }, 'query failed');
+		expect(provider.emitted[0]!.attributes).toEqual({
+			component: 'db',
+			table: 'users',
+			'log.source': 'structured',
+		});
+	});
+
+	it('should skip undefined and function values', async () => {
+		logs.setGlobalLoggerProvider(provider);
+		await structuredLogger.info({ component: undefined, fn: () => 1 } as never, 'sparse');
+		expect(provider.emitted[0]!.attributes).toEqual({ 'log.source': 'structured' });
+	});
+
+	it('should respect the production debug filter', async () => {
+		logs.setGlobalLoggerProvider(provider);
+		configureLogging({ nodeEnv: 'production' });
+		await structuredLogger.debug('hidden');
+		expect(provider.emitted).toHaveLength(0);
+	});
+
+	it('should emit alongside configured transports', async () => {
+		logs.setGlobalLoggerProvider(provider);
+		const writeLog = vi.fn().mockResolvedValue(undefined);
+		configureLogging({ writeLog });
+		await structuredLogger.info('both');
+		expect(writeLog).toHaveBeenCalledTimes(1);
+		expect(provider.emitted).toHaveLength(1);
+	});
+
+	it('should not emit when otelLogs is disabled', async () => {
+		logs.setGlobalLoggerProvider(provider);
+		configureLogging({ otelLogs: false });
+		await structuredLogger.info('opted out');
+		expect(provider.emitted).toHaveLength(0);
+	});
+
+	it('should not emit lokiLogger records', () => {
+		logs.setGlobalLoggerProvider(provider);
+		lokiLog('INFO', 'loki only');
+		expect(provider.emitted).toHaveLength(0);
+	});
+
+	it('should keep logging when the provider throws', async () => {
+		logs.setGlobalLoggerProvider({
+			getLogger: () => ({
+				emit: () => {
+					throw new Error('exporter down');
+				},
+			}),
+		});
+		const writeLog = vi.fn().mockResolvedValue(undefined);
+		configureLogging({ writeLog });
+		await expect(structuredLogger.error('still logged')).resolves.toBeUndefined();
+		expect(writeLog).toHaveBeenCalled();
+	});
+
+	it('should do nothing when the logs API is unavailable', async () => {
+		logs.setGlobalLoggerProvider(provider);
+		_setLogsApi(undefined);
+		await structuredLogger.info('no api');
+		expect(provider.emitted).toHaveLength(0);
+	});
+});
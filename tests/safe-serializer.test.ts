@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+	structuredLogger,
+	lokiLog,
+	lokiTransport,
+	flushLogs,
+	logAdminFlatActivity,
+	readFlatLogs,
+	toSerializable,
+	safeStringify,
+	truncateString,
+	configureLogging,
+	resetLoggingConfig,
+	_resetBuffer,
+} from '../src/index.js';
+
+describe('safe-serializer', () => {
+	beforeEach(() => {
+		resetLoggingConfig();
+		_resetBuffer();
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		vi.unstubAllGlobals();
+		_resetBuffer();
+	});
+
+	describe('toSerializable', () => {
+		it('should mark circular references but keep shared ones', () => {
+			const shared = { id: 1 };
+			const value: Record<string, unknown> = { a: shared, b: shared };
+			value.self = value;
+			expect(toSerializable(value)).toEqual({ a: { id: 1 }, b: { id: 1 }, self: '[Circular]' });
+		});
+
+		it('should convert special types', () => {
+			expect(
+				toSerializable({
+					big: 12345678901234567890n,
+					map: new Map<unknown, unknown>([
+						['a', 1],
+						[2, new Set(['x'])],
+					]),
+					set: new Set([1, 2]),
+					date: new Date('2026-01-01T00:00:00.000Z'),
+					invalid: new Date(NaN),
+					buffer: Buffer.from('hi'),
+					bytes: new Uint8Array([1, 2]),
+					bigints: new BigInt64Array([1n]),
+					nan: NaN,
+					fn: () => 1,
+					url: new URL('https://example.com/a'),
+				}),
+			).toEqual({
+				big: '12345678901234567890',
+				map: { a: 1, '2': ['x'] },
+				set: [1, 2],
+				date: '2026-01-01T00:00:00.000Z',
+				invalid: 'Invalid Date',
+				buffer: 'aGk=',
+				bytes: [1, 2],
+				bigints: ['1'],
+				nan: 'NaN',
+				url: 'https://example.com/a',
+			});
+		});
+
+		it('should serialize errors', () => {
+			expect(toSerializable({ err: new RangeError('out') })).toEqual({
+				err: expect.objectContaining({ name: 'RangeError', message: 'out' }),
+			});
+		});
+
+		it('should limit depth', () => {
+			expect(toSerializable({ a: { b: { c: { d: 1 } }, list: [[1]] } }, { maxDepth: 2 })).toEqual({
+				a: { b: '[Object]', list: '[Array]' },
+			});
+		});
+
+		it('should limit key and item counts', () => {
+			const wide = Object.fromEntries(Array.from({ length: 5 }, (_, i) => [`k${i}`, i]));
+			expect(toSerializable(wide, { maxKeys: 3 })).toEqual({ k0: 0, k1: 1, '…': '[3 more keys]' });
+			expect(toSerializable([1, 2, 3, 4], { maxKeys: 3 })).toEqual([1, 2, '[2 more items]']);
+			expect(toSerializable([1, 2, 3], { maxKeys: 3 })).toEqual([1, 2, 3]);
+		});
+
+		it('should truncate long strings and record the truncated length', () => {
+			const output = toSerializable({ s: 'x'.repeat(100) }, { maxStringLength: 40 }).s;
+			expect(output).toHaveLength(40);
+			expect(output).toMatch(/^x{19}…\[truncated 81 chars\]$/);
+		});
+
+		it('should be idempotent', () => {
+			const config = { maxKeys: 2, maxStringLength: 30 };
+			const once = toSerializable({ a: 'y'.repeat(50), b: 1, c: 2 }, config);
+			expect(toSerializable(once, config)).toEqual(once);
+		});
+	});
+
+	describe('safeStringify', () => {
+		it('should never throw', () => {
+			const value: Record<string, unknown> = { n: 1n };
+			value.loop = value;
+			expect(JSON.parse(safeStringify(value))).toEqual({ n: '1', loop: '[Circular]' });
+			expect(safeStringify(undefined)).toBe('undefined');
+		});
+
+		it('should use the configured limits', () => {
+			configureLogging({ serializer: { maxStringLength: 20 } });
+			expect(JSON.parse(safeStringify('z'.repeat(50)))).toHaveLength(20);
+		});
+	});
+
+	describe('truncateString', () => {
+		it('should leave short strings alone', () => {
+			expect(truncateString('short', 10)).toBe('short');
+		});
+
+		it('should cut without a marker when the limit is too small for one', () => {
+			expect(truncateString('abcdefghij', 4)).toBe('abcd');
+		});
+	});
+
+	describe('logger integration', () => {
+		it('should deliver Loki batches containing circular and BigInt context', async () => {
+			const fetchMock = vi.fn().mockResolvedValue({ ok: true });
+			vi.stubGlobal('fetch', fetchMock);
+			configureLogging({ lokiUrl: 'http://loki:3100', transports: [lokiTransport()] });
+			const payload: Record<string, unknown> = { total: 10n };
+			payload.self = payload;
+			await structuredLogger.info({ payload }, 'with cycle');
+			lokiLog('INFO', 'plain');
+			await flushLogs();
+
+			const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+			const lines = body.streams.flatMap((s: { values: string[][] }) => s.values.map((v) => JSON.parse(v[1]!)));
+			expect(lines).toHaveLength(2);
+			expect(JSON.parse(lines[0].payload)).toEqual({ total: '10', self: '[Circular]' });
+		});
+
+		it('should pass safe values to writeLog', async () => {
+			const writeLog = vi.fn().mockResolvedValue(undefined);
+			configureLogging({ writeLog });
+			await structuredLogger.info({ ids: new Set([1n]), at: new Date(0) }, 'converted');
+			expect(writeLog).toHaveBeenCalledWith(
+				expect.objectContaining({ ids: ['1'], at: '1970-01-01T00:00:00.000Z' }),
+			);
+		});
+
+		it('should write flat admin logs with unserializable details', async () => {
+			const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'safe-serializer-test-'));
+			try {
+				configureLogging({ logsDir: tmpDir });
+				const details: Record<string, unknown> = { count: 2n, tags: new Set(['a']) };
+				details.self = details;
+				await logAdminFlatActivity({ id: 'u1', email: 'a@b.com' }, '10.0.0.1', null, {
+					action: 'user.update',
+					details,
+				});
+				const [log] = await readFlatLogs();
+				expect(log!.details).toEqual({ count: '2', tags: ['a'], self: '[Circular]' });
+			} finally {
+				await fs.rm(tmpDir, { recursive: true, force: true });
+			}
+		});
+	});
+});
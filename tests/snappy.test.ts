@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { snappyCompress, snappyUncompress } from '../src/snappy.js';
+
+const encoder = new TextEncoder();
+
+function roundTrip(input: Uint8Array): Uint8Array {
+	return snappyUncompress(snappyCompress(input));
+}
+
+describe('snappy', () => {
+	describe('snappyCompress', () => {
+		it('should encode the uncompressed length as a varint preamble', () => {
+			const compressed = snappyCompress(new Uint8Array(300));
+			expect([compressed[0], compressed[1]]).toEqual([0xac, 0x02]);
+		});
+
+		it('should encode short input as a single literal', () => {
+			expect([...snappyCompress(encoder.encode('hello'))]).toEqual([
+				5, 16, 104, 101, 108, 108, 111,
+			]);
+		});
+
+		it('should encode empty input as a zero length', () => {
+			expect([...snappyCompress(new Uint8Array(0))]).toEqual([0]);
+		});
+
+		it('should compress repetitive input', () => {
+			const input = encoder.encode('{"level":"INFO","msg":"request handled"}'.repeat(200));
+			expect(snappyCompress(input).length).toBeLessThan(input.length / 10);
+		});
+	});
+
+	describe('round trip', () => {
+		it('should round-trip text', () => {
+			const input = encoder.encode('the quick brown fox jumps over the lazy dog');
+			expect(roundTrip(input)).toEqual(input);
+		});
+
+		it('should round-trip repetitive text', () => {
+			const input = encoder.encode('abcabcabcabcabcabcabcabcabcabcabcabc'.repeat(50));
+			expect(roundTrip(input)).toEqual(input);
+		});
+
+		it('should round-trip long literals', () => {
+			const input = new Uint8Array(70000);
+			let seed = 42;
+			for (let i = 0; i < input.length; i++) {
+				seed = (Math.imul(seed, 1103515245) + 12345) >>> 0;
+				input[i] = seed >>> 24;
+			}
+			expect(roundTrip(input)).toEqual(input);
+		});
+
+		it('should round-trip input spanning several blocks', () => {
+			const input = encoder.encode('log line with some variety 0123456789\n'.repeat(5000));
+			expect(input.length).toBeGreaterThan(1 << 17);
+			expect(roundTrip(input)).toEqual(input);
+		});
+
+		it('should round-trip long runs of a single byte', () => {
+			const input = new Uint8Array(1000).fill(7);
+			expect(roundTrip(input)).toEqual(input);
+		});
+	});
+
+	describe('snappyUncompress', () => {
+		it('should decode copies with four-byte offsets', () => {
+			const compressed = Uint8Array.from([8, 4, 97, 98, 3 | (5 << 2), 2, 0, 0, 0]);
+			expect(new TextDecoder().decode(snappyUncompress(compressed))).toBe('abababab');
+		});
+
+		it('should reject copies that reach before the start of the output', () => {
+			expect(() => snappyUncompress(Uint8Array.from([4, 2 | (3 << 2), 5, 0]))).toThrow();
+		});
+
+		it('should reject output that does not match the declared length', () => {
+			expect(() => snappyUncompress(Uint8Array.from([9, 16, 104, 101, 108, 108, 111]))).toThrow();
+		});
+	});
+});
@@ -0,0 +1,299 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+	structuredLogger,
+	elasticsearchTransport,
+	formatIndexName,
+	configureLogging,
+	resetLoggingConfig,
+} from '../src/index.js';
+import type { LogRecord } from '../src/index.js';
+import { toElasticsearchDocument } from '../src/transport-elasticsearch.js';
+
+interface BulkRequest {
+	url: string;
+	headers: http.IncomingHttpHeaders;
+	lines: Record<string, unknown>[];
+}
+
+type Responder = (request: BulkRequest) => { status: number; body?: unknown } | null;
+
+async function startStub(responders: Responder[] = []) {
+	const requests: BulkRequest[] = [];
+	const server = http.createServer((req, res) => {
+		let raw = '';
+		req.on('data', (chunk) => {
+			raw += chunk;
+		});
+		req.on('end', () => {
+			const request: BulkRequest = {
+				url: req.url ?? '',
+				headers: req.headers,
+				lines: raw
+					.split('\n')
+					.filter(Boolean)
+					.map((line) => JSON.parse(line)),
+			};
+			requests.push(request);
+			const responder = responders.shift();
+			const response = responder ? responder(request) : { status: 200, body: { errors: false } };
+			if (!response) return;
+			const { status, body } = response;
+			res.statusCode = status;
+			res.setHeader('Content-Type', 'application/json');
+			res.end(JSON.stringify(body ?? {}));
+		});
+	});
+	await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', () => resolve()));
+	const { port } = server.address() as AddressInfo;
+	return {
+		url: `http://127.0.0.1:${port}`,
+		requests,
+		close: () => {
+			server.closeAllConnections();
+			return new Promise<void>((resolve) => server.close(() => resolve()));
+		},
+	};
+}
+
+function documents(request: BulkRequest): Record<string, unknown>[] {
+	return request.lines.filter((_, i) => i % 2 === 1);
+}
+
+function actions(request: BulkRequest): Record<string, unknown>[] {
+	return request.lines.filter((_, i) => i % 2 === 0);
+}
+
+describe('transport-elasticsearch', () => {
+	let errorSpy: ReturnType<typeof vi.spyOn>;
+
+	beforeEach(() => {
+		resetLoggingConfig();
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+		errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe('formatIndexName', () => {
+		it('should substitute UTC date tokens', () => {
+			expect(formatIndexName('logs-YYYY.MM.DD', Date.parse('2026-02-03T23:30:00.000Z'))).toBe(
+				'logs-2026.02.03',
+			);
+			expect(formatIndexName('app-YYYY-MM', Date.parse('2026-12-31T00:00:00.000Z'))).toBe('app-2026-12');
+		});
+	});
+
+	describe('toElasticsearchDocument', () => {
+		it('should use @timestamp and keep the writeLog fields', () => {
+			const record: LogRecord = {
+				source: 'structured',
+				level: 'warn',
+				message: 'slow',
+				timestamp: Date.parse('2026-01-01T00:00:00.000Z'),
+				context: { component: 'db', ms: 900 },
+				traceId: 't1',
+			};
+			expect(toElasticsearchDocument(record)).toEqual({
+				'@timestamp': '2026-01-01T00:00:00.000Z',
+				level: 'warn',
+				message: 'slow',
+				trace_id: 't1',
+				component: 'db',
+				ms: 900,
+				source: 'structured',
+			});
+		});
+	});
+
+	describe('bulk requests', () => {
+		let stub: Awaited<ReturnType<typeof startStub>>;
+
+		afterEach(async () => {
+			await stub.close();
+		});
+
+		it('should post NDJSON to _bulk with date-based indices', async () => {
+			stub = await startStub();
+			vi.useFakeTimers({ toFake: ['Date'] });
+			vi.setSystemTime(new Date('2026-05-06T07:08:09.000Z'));
+			const transport = elasticsearchTransport({ url: `${stub.url}/`, auth: { type: 'apiKey', apiKey: 'k1' } });
+			configureLogging({ transports: [transport] });
+			await structuredLogger.info({ component: 'api' }, 'first');
+			await structuredLogger.error('second');
+			vi.useRealTimers();
+			await transport.flush!();
+
+			expect(stub.requests).toHaveLength(1);
+			const [request] = stub.requests;
+			expect(request!.url).toBe('/_bulk');
+			expect(request!.headers['content-type']).toBe('application/x-ndjson');
+			expect(request!.headers.authorization).toBe('ApiKey k1');
+			expect(actions(request!)).toEqual([
+				{ index: { _index: 'logs-2026.05.06' } },
+				{ index: { _index: 'logs-2026.05.06' } },
+			]);
+			expect(documents(request!).map((doc) => doc.message)).toEqual(['first', 'second']);
+			expect(documents(request!)[0]).toMatchObject({
+				'@timestamp': '2026-05-06T07:08:09.000Z',
+				component: 'api',
+			});
+		});
+
+		it('should use create actions against a data stream', async () => {
+			stub = await startStub();
+			const transport = elasticsearchTransport({
+				url: stub.url,
+				dataStream: true,
+				index: 'logs-billing-prod',
+				auth: { type: 'basic', username: 'u', password: 'p' },
+			});
+			configureLogging({ transports: [transport] });
+			await structuredLogger.info('streamed');
+			await transport.flush!();
+
+			expect(actions(stub.requests[0]!)).toEqual([{ create: { _index: 'logs-billing-prod' } }]);
+			expect(stub.requests[0]!.headers.authorization).toBe(`Basic ${Buffer.from('u:p').toString('base64')}`);
+		});
+
+		it('should accept an index function', async () => {
+			stub = await startStub();
+			const transport = elasticsearchTransport({
+				url: stub.url,
+				index: (record) => `logs-${record.level}`,
+			});
+			configureLogging({ transports: [transport] });
+			await structuredLogger.warn('routed');
+			await transport.flush!();
+			expect(actions(stub.requests[0]!)).toEqual([{ index: { _index: 'logs-warn' } }]);
+		});
+
+		it('should batch by count', async () => {
+			stub = await startStub();
+			const transport = elasticsearchTransport({ url: stub.url, batchSize: 2, flushIntervalMs: 60000 });
+			configureLogging({ transports: [transport] });
+			for (let i = 0; i < 5; i++) await structuredLogger.info(`entry ${i}`);
+			await transport.close!();
+			expect(stub.requests.map((r) => documents(r).length)).toEqual([2, 2, 1]);
+		});
+
+		it('should batch by bytes', async () => {
+			stub = await startStub();
+			const transport = elasticsearchTransport({
+				url: stub.url,
+				maxBatchBytes: 600,
+				flushIntervalMs: 60000,
+			});
+			configureLogging({ transports: [transport] });
+			for (let i = 0; i < 4; i++) await structuredLogger.info({ padding: 'x'.repeat(200) }, `entry ${i}`);
+			await transport.close!();
+			expect(stub.requests.length).toBeGreaterThan(1);
+			for (const request of stub.requests) {
+				const bytes = request.lines.reduce((sum, line) => sum + JSON.stringify(line).length + 1, 0);
+				expect(documents(request).length === 1 || bytes <= 600).toBe(true);
+			}
+			expect(stub.requests.flatMap((r) => documents(r).map((doc) => doc.message))).toEqual([
+				'entry 0',
+				'entry 1',
+				'entry 2',
+				'entry 3',
+			]);
+		});
+
+		it('should retry only the failed items', async () => {
+			stub = await startStub([
+				() => ({
+					status: 200,
+					body: {
+						errors: true,
+						items: [
+							{ index: { status: 201 } },
+							{ index: { status: 429, error: { type: 'es_rejected_execution_exception' } } },
+							{ index: { status: 400, error: { type: 'mapper_parsing_exception' } } },
+							{ index: { status: 503, error: { type: 'unavailable_shards_exception' } } },
+						],
+					},
+				}),
+			]);
+			const transport = elasticsearchTransport({ url: stub.url, retry: { baseDelayMs: 1 } });
+			configureLogging({ transports: [transport] });
+			for (const message of ['ok', 'throttled', 'bad', 'unavailable']) {
+				await structuredLogger.info(message);
+			}
+			await transport.flush!();
+
+			expect(stub.requests).toHaveLength(2);
+			expect(documents(stub.requests[1]!).map((doc) => doc.message)).toEqual(['throttled', 'unavailable']);
+			expect(errorSpy).toHaveBeenCalledWith('Elasticsearch rejected 1 log documents:', {
+				type: 'mapper_parsing_exception',
+			});
+		});
+
+		it('should retry whole requests on retryable statuses', async () => {
+			stub = await startStub([() => ({ status: 503 }), () => ({ status: 429 })]);
+			const transport = elasticsearchTransport({ url: stub.url, retry: { baseDelayMs: 1 } });
+			configureLogging({ transports: [transport] });
+			await structuredLogger.info('eventually');
+			await transport.flush!();
+			expect(stub.requests).toHaveLength(3);
+			expect(documents(stub.requests[2]!)[0]!.message).toBe('eventually');
+		});
+
+		it('should time out and retry requests that get no response', async () => {
+			stub = await startStub([() => null]);
+			const transport = elasticsearchTransport({
+				url: stub.url,
+				retry: { baseDelayMs: 1, requestTimeoutMs: 50 },
+			});
+			configureLogging({ transports: [transport] });
+			await structuredLogger.info('slow');
+			await transport.flush!();
+			expect(stub.requests).toHaveLength(2);
+			expect(documents(stub.requests[1]!)[0]!.message).toBe('slow');
+		});
+
+		it('should drop the oldest documents when the queue is full', async () => {
+			stub = await startStub();
+			const transport = elasticsearchTransport({ url: stub.url, maxQueueSize: 2, flushIntervalMs: 60000 });
+			configureLogging({ transports: [transport] });
+			await structuredLogger.info('a');
+			await structuredLogger.info('b');
+			await structuredLogger.info('c');
+			await transport.flush!();
+			expect(documents(stub.requests[0]!).map((d) => d.message)).toEqual(['b', 'c']);
+			expect(errorSpy).toHaveBeenCalledWith(
+				'Failed to send logs to Elasticsearch:',
+				expect.objectContaining({ message: 'Dropped 1 log records because the queue was full' }),
+			);
+		});
+
+		it('should drop items after maxAttempts', async () => {
+			stub = await startStub([() => ({ status: 500 }), () => ({ status: 500 })]);
+			const transport = elasticsearchTransport({
+				url: stub.url,
+				retry: { maxAttempts: 2, baseDelayMs: 1 },
+			});
+			configureLogging({ transports: [transport] });
+			await structuredLogger.info('lost');
+			await transport.flush!();
+			expect(stub.requests).toHaveLength(2);
+			expect(errorSpy).toHaveBeenCalledWith('Failed to send logs to Elasticsearch:', expect.any(Error));
+		});
+
+		it('should not retry non-retryable request errors', async () => {
+			stub = await startStub([() => ({ status: 401 })]);
+			const transport = elasticsearchTransport({ url: stub.url, retry: { baseDelayMs: 1 } });
+			configureLogging({ transports: [transport] });
+			await structuredLogger.info('unauthorized');
+			await transport.flush!();
+			expect(stub.requests).toHaveLength(1);
+			expect(errorSpy).toHaveBeenCalledWith(
+				'Failed to send logs to Elasticsearch:',
+				expect.objectContaining({ message: 'Elasticsearch bulk request failed with status 401' }),
+			);
+		});
+	});
+});
@@ -0,0 +1,239 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { gunzipSync } from 'node:zlib';
+import {
+	structuredLogger,
+	lokiLog,
+	logAdminFileActivity,
+	fileTransport,
+	configureLogging,
+	resetLoggingConfig,
+} from '../src/index.js';
+import { formatLine } from '../src/formatters.js';
+import { record } from './helpers.js';
+
+async function readLines(file: string): Promise<Record<string, unknown>[]> {
+	const raw = await fs.readFile(file);
+	const text = file.endsWith('.gz') ? gunzipSync(raw).toString('utf8') : raw.toString('utf8');
+	return text
+		.split('\n')
+		.filter(Boolean)
+		.map((line) => JSON.parse(line));
+}
+
+describe('transport-file', () => {
+	let tmpDir: string;
+
+	beforeEach(async () => {
+		resetLoggingConfig();
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+		tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-transport-test-'));
+	});
+
+	afterEach(async () => {
+		vi.restoreAllMocks();
+		vi.useRealTimers();
+		await fs.rm(tmpDir, { recursive: true, force: true });
+	});
+
+	describe('formatLine', () => {
+		it('should serialize the writeLog entry shape with an ISO timestamp', () => {
+			expect(JSON.parse(formatLine(record({ context: { component: 'db', rows: 2 }, traceId: 't1' })))).toEqual({
+				level: 'info',
+				message: 'hello',
+				timestamp: '2026-01-01T00:00:00.000Z',
+				trace_id: 't1',
+				component: 'db',
+				rows: 2,
+				source: 'structured',
+			});
+		});
+	});
+
+	it('should append NDJSON under logsDir', async () => {
+		const transport = fileTransport();
+		configureLogging({ logsDir: tmpDir, transports: [transport] });
+		await structuredLogger.info({ component: 'api' }, 'first');
+		lokiLog('WARN', 'second', { route: '/x' });
+		await transport.close!();
+
+		const lines = await readLines(path.join(tmpDir, 'app.ndjson'));
+		expect(lines.map((line) => line.message)).toEqual(['first', 'second']);
+		expect(lines[0]).toMatchObject({ level: 'info', component: 'api', source: 'structured' });
+		expect(lines[1]).toMatchObject({ level: 'warn', route: '/x', source: 'loki' });
+	});
+
+	it('should buffer writes until flushed', async () => {
+		const transport = fileTransport({ dir: tmpDir, flushIntervalMs: 60000 });
+		configureLogging({ transports: [transport] });
+		await structuredLogger.info('buffered');
+		await expect(fs.access(path.join(tmpDir, 'app.ndjson'))).rejects.toThrow();
+		await transport.flush!();
+		expect(await readLines(path.join(tmpDir, 'app.ndjson'))).toHaveLength(1);
+		await transport.close!();
+	});
+
+	it('should keep records in order across batches', async () => {
+		const transport = fileTransport({ dir: tmpDir, batchSize: 3 });
+		configureLogging({ transports: [transport] });
+		for (let i = 0; i < 10; i++) {
+			await structuredLogger.info(`line ${i}`);
+		}
+		await transport.close!();
+		const lines = await readLines(path.join(tmpDir, 'app.ndjson'));
+		expect(lines.map((line) => line.message)).toEqual(Array.from({ length: 10 }, (_, i) => `line ${i}`));
+	});
+
+	it('should rotate and gzip by size', async () => {
+		const transport = fileTransport({ dir: tmpDir, fileName: 'svc', maxBytes: 400 });
+		configureLogging({ transports: [transport] });
+		for (let i = 0; i < 6; i++) {
+			await structuredLogger.info({ padding: 'x'.repeat(100) }, `entry ${i}`);
+		}
+		await transport.close!();
+
+		const files = (await fs.readdir(tmpDir)).sort((a, b) => a.localeCompare(b, 'en', { numeric: true }));
+		const rotated = files.filter((file) => file !== 'svc.ndjson');
+		expect(rotated.length).toBeGreaterThan(1);
+		for (const file of rotated) {
+			expect(file).toMatch(/^svc-\d{4}-\d{2}-\d{2}\.\d+\.ndjson\.gz$/);
+		}
+
+		const all: Record<string, unknown>[] = [];
+		for (const file of [...rotated, 'svc.ndjson']) {
+			all.push(...(await readLines(path.join(tmpDir, file))));
+			if (!file.endsWith('.gz')) {
+				expect((await fs.stat(path.join(tmpDir, file))).size).toBeLessThanOrEqual(400);
+			}
+		}
+		expect(all.map((line) => line.message)).toEqual(Array.from({ length: 6 }, (_, i) => `entry ${i}`));
+	});
+
+	it('should rotate by day without compression', async () => {
+		vi.useFakeTimers({ toFake: ['Date'] });
+		const transport = fileTransport({ dir: tmpDir, daily: true, compress: false });
+		configureLogging({ transports: [transport] });
+
+		vi.setSystemTime(new Date('2026-03-01T23:59:00.000Z'));
+		await structuredLogger.info('day one');
+		vi.setSystemTime(new Date('2026-03-02T00:01:00.000Z'));
+		await structuredLogger.info('day two');
+		await transport.flush!();
+		vi.setSystemTime(new Date('2026-03-03T08:00:00.000Z'));
+		await structuredLogger.info('day three');
+		await transport.close!();
+
+		expect((await fs.readdir(tmpDir)).sort()).toEqual([
+			'app-2026-03-01.1.ndjson',
+			'app-2026-03-02.1.ndjson',
+			'app.ndjson',
+		]);
+		expect((await readLines(path.join(tmpDir, 'app-2026-03-01.1.ndjson')))[0]!.message).toBe('day one');
+		expect((await readLines(path.join(tmpDir, 'app-2026-03-02.1.ndjson')))[0]!.message).toBe('day two');
+		expect((await readLines(path.join(tmpDir, 'app.ndjson')))[0]!.message).toBe('day three');
+	});
+
+	it('should keep only maxFiles rotated files', async () => {
+		const transport = fileTransport({ dir: tmpDir, maxBytes: 1, maxFiles: 2, batchSize: 1 });
+		configureLogging({ transports: [transport] });
+		for (let i = 0; i < 5; i++) {
+			await structuredLogger.info(`entry ${i}`);
+			await transport.flush!();
+		}
+		await transport.close!();
+
+		const today = new Date().toISOString().slice(0, 10);
+		expect((await fs.readdir(tmpDir)).sort()).toEqual([
+			`app-${today}.3.ndjson.gz`,
+			`app-${today}.4.ndjson.gz`,
+			'app.ndjson',
+		]);
+		expect((await readLines(path.join(tmpDir, `app-${today}.4.ndjson.gz`)))[0]!.message).toBe('entry 3');
+	});
+
+	it('should delete rotated files older than maxAgeDays', async () => {
+		await fs.writeFile(path.join(tmpDir, 'app-2020-01-01.1.ndjson.gz'), '');
+		await fs.writeFile(path.join(tmpDir, 'other-2020-01-01.1.ndjson.gz'), '');
+		const transport = fileTransport({ dir: tmpDir, maxBytes: 1, maxAgeDays: 7 });
+		configureLogging({ transports: [transport] });
+		await structuredLogger.info('one');
+		await transport.flush!();
+		await structuredLogger.info('two');
+		await transport.close!();
+
+		const files = await fs.readdir(tmpDir);
+		expect(files).not.toContain('app-2020-01-01.1.ndjson.gz');
+		expect(files).toContain('other-2020-01-01.1.ndjson.gz');
+		expect(files).toHaveLength(3);
+	});
+
+	it('should continue an existing file after a restart', async () => {
+		await fs.writeFile(path.join(tmpDir, 'app.ndjson'), `${'x'.repeat(90)}\n`);
+		const transport = fileTransport({ dir: tmpDir, maxBytes: 100, compress: false });
+		configureLogging({ transports: [transport] });
+		await structuredLogger.info('after restart');
+		await transport.close!();
+
+		const files = await fs.readdir(tmpDir);
+		expect(files).toHaveLength(2);
+		expect((await readLines(path.join(tmpDir, 'app.ndjson')))[0]!.message).toBe('after restart');
+	});
+
+	it('should write admin audit records', async () => {
+		const transport = fileTransport({ dir: tmpDir, fileName: 'audit', sources: ['audit'] });
+		configureLogging({ auditLog: vi.fn().mockResolvedValue(undefined), transports: [transport] });
+		await structuredLogger.info('ignored');
+		await logAdminFileActivity({ id: 'u1', email: 'a@b.com' }, '10.0.0.1', null, { action: 'user.delete' });
+		await transport.close!();
+
+		const lines = await readLines(path.join(tmpDir, 'audit.ndjson'));
+		expect(lines).toHaveLength(1);
+		expect(lines[0]).toMatchObject({
+			source: 'audit',
+			message: 'user.delete',
+			audit: { admin_email: 'a@b.com', ip_address: '10.0.0.1' },
+		});
+	});
+
+	it('should write logfmt lines to .log files', async () => {
+		const transport = fileTransport({ dir: tmpDir, format: 'logfmt', maxBytes: 150, compress: false });
+		configureLogging({ transports: [transport] });
+		await structuredLogger.info({ component: 'db' }, 'first query');
+		await structuredLogger.warn({ component: 'db' }, 'second query');
+		await transport.close!();
+
+		const files = (await fs.readdir(tmpDir)).sort();
+		expect(files).toEqual([expect.stringMatching(/^app-\d{4}-\d{2}-\d{2}\.1\.log$/), 'app.log']);
+		const text = await fs.readFile(path.join(tmpDir, 'app.log'), 'utf8');
+		expect(text).toMatch(/^time=\S+ level=warn msg="second query" component=db source=structured\n$/);
+	});
+
+	it('should write ECS documents for audit records', async () => {
+		const transport = fileTransport({ dir: tmpDir, fileName: 'audit', format: 'ecs', sources: ['audit'] });
+		configureLogging({ auditLog: vi.fn().mockResolvedValue(undefined), transports: [transport] });
+		await logAdminFileActivity({ id: 'u1', email: 'a@b.com' }, '10.0.0.1', null, { action: 'user.delete' });
+		await transport.close!();
+
+		const [line] = await readLines(path.join(tmpDir, 'audit.ndjson'));
+		expect(line).toMatchObject({
+			'event.action': 'user.delete',
+			'user.id': 'u1',
+			'user.email': 'a@b.com',
+			'source.ip': '10.0.0.1',
+			'event.dataset': 'tinyland.audit',
+		});
+	});
+
+	it('should report write failures', async () => {
+		const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+		const blocker = path.join(tmpDir, 'not-a-dir');
+		await fs.writeFile(blocker, '');
+		const transport = fileTransport({ dir: path.join(blocker, 'logs') });
+		configureLogging({ transports: [transport] });
+		await structuredLogger.info('lost');
+		await transport.close!();
+		expect(errorSpy).toHaveBeenCalledWith('Failed to write log file:', expect.any(Error));
+	});
+});
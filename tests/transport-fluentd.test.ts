@@ -0,0 +1,240 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import net from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import {
+	structuredLogger,
+	lokiLog,
+	fluentdTransport,
+	configureLogging,
+	resetLoggingConfig,
+	_resetBuffer,
+} from '../src/index.js';
+import type { LogRecord } from '../src/index.js';
+import { decodeMsgpack, encodeMsgpack, MsgpackExt } from '../src/msgpack.js';
+import { toEventTime, toForwardTag } from '../src/transport-fluentd.js';
+
+interface ForwardMessage {
+	tag: string;
+	entries: Array<[MsgpackExt, Record<string, unknown>]>;
+	option: { size: number; chunk?: string };
+}
+
+function decodeEntries(stream: Uint8Array): Array<[MsgpackExt, Record<string, unknown>]> {
+	const entries: Array<[MsgpackExt, Record<string, unknown>]> = [];
+	let offset = 0;
+	while (offset < stream.length) {
+		const decoded = decodeMsgpack(stream, offset);
+		entries.push(decoded.value as [MsgpackExt, Record<string, unknown>]);
+		offset = decoded.offset;
+	}
+	return entries;
+}
+
+interface ForwardServer {
+	port: number;
+	messages: ForwardMessage[];
+	connections: net.Socket[];
+	close: () => Promise<void>;
+}
+
+async function startForwardServer(
+	listen: (server: net.Server) => Promise<void>,
+	onMessage: (message: ForwardMessage, socket: net.Socket) => void = () => {},
+): Promise<ForwardServer> {
+	const messages: ForwardMessage[] = [];
+	const connections: net.Socket[] = [];
+	const server = net.createServer((socket) => {
+		connections.push(socket);
+		let buffer = Buffer.alloc(0);
+		socket.on('data', (chunk) => {
+			buffer = Buffer.concat([buffer, chunk]);
+			while (buffer.length > 0) {
+				let decoded;
+				try {
+					decoded = decodeMsgpack(buffer);
+				} catch {
+					return;
+				}
+				buffer = buffer.subarray(decoded.offset);
+				const [tag, stream, option] = decoded.value as [string, Uint8Array, ForwardMessage['option']];
+				const message = { tag, entries: decodeEntries(stream), option };
+				messages.push(message);
+				onMessage(message, socket);
+			}
+		});
+	});
+	await listen(server);
+	const address = server.address();
+	return {
+		port: typeof address === 'object' && address ? address.port : 0,
+		messages,
+		connections,
+		close: async () => {
+			for (const socket of connections) socket.destroy();
+			await new Promise<void>((resolve) => server.close(() => resolve()));
+		},
+	};
+}
+
+function listenTcp(server: net.Server): Promise<void> {
+	return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve()));
+}
+
+describe('transport-fluentd', () => {
+	beforeEach(() => {
+		resetLoggingConfig();
+		_resetBuffer();
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe('toForwardTag', () => {
+		const base: LogRecord = { source: 'structured', level: 'info', message: 'm', timestamp: 0, context: {} };
+
+		it('should derive the tag from the component', () => {
+			expect(toForwardTag({ ...base, context: { component: 'auth' } })).toBe('app.auth');
+			expect(toForwardTag({ ...base, context: { component: 'billing api' } }, 'svc')).toBe('svc.billing_api');
+		});
+
+		it('should fall back to the prefix', () => {
+			expect(toForwardTag(base)).toBe('app');
+			expect(toForwardTag({ ...base, context: { component: '...' } })).toBe('app');
+		});
+	});
+
+	describe('toEventTime', () => {
+		it('should encode seconds and nanoseconds', () => {
+			const time = toEventTime(Date.parse('2026-01-01T00:00:00.250Z'));
+			expect(time.type).toBe(0);
+			expect(Buffer.from(time.data).readUInt32BE(0)).toBe(1767225600);
+			expect(Buffer.from(time.data).readUInt32BE(4)).toBe(250000000);
+		});
+	});
+
+	describe('tcp', () => {
+		let server: ForwardServer;
+
+		afterEach(async () => {
+			await server.close();
+		});
+
+		it('should send PackedForward messages grouped by tag', async () => {
+			server = await startForwardServer(listenTcp);
+			const transport = fluentdTransport({ host: '127.0.0.1', port: server.port });
+			configureLogging({ transports: [transport] });
+			await structuredLogger.info({ component: 'auth', userId: 'u1' }, 'login');
+			await structuredLogger.warn({ component: 'db' }, 'slow');
+			await structuredLogger.error({ component: 'auth' }, 'denied');
+			lokiLog('INFO', 'request', { route: '/x' });
+			await transport.close!();
+
+			await vi.waitFor(() => expect(server.messages).toHaveLength(3));
+			const byTag = Object.fromEntries(server.messages.map((m) => [m.tag, m]));
+			expect(Object.keys(byTag).sort()).toEqual(['app', 'app.auth', 'app.db']);
+			expect(byTag['app.auth']!.option).toEqual({ size: 2 });
+			expect(byTag['app.auth']!.entries.map(([, record]) => record.message)).toEqual(['login', 'denied']);
+			expect(byTag['app.auth']!.entries[0]![0]).toBeInstanceOf(MsgpackExt);
+			expect(byTag['app.auth']!.entries[0]![1]).toMatchObject({
+				level: 'info',
+				component: 'auth',
+				user_id: 'u1',
+				source: 'structured',
+			});
+			expect(byTag.app!.entries[0]![1]).toMatchObject({ message: 'request', route: '/x', source: 'loki' });
+		});
+
+		it('should use a custom tag prefix', async () => {
+			server = await startForwardServer(listenTcp);
+			const transport = fluentdTransport({ host: '127.0.0.1', port: server.port, tagPrefix: 'k8s.web' });
+			configureLogging({ transports: [transport] });
+			await structuredLogger.info({ component: 'api' }, 'tagged');
+			await transport.close!();
+			await vi.waitFor(() => expect(server.messages).toHaveLength(1));
+			expect(server.messages[0]!.tag).toBe('k8s.web.api');
+		});
+
+		it('should wait for chunk acks', async () => {
+			server = await startForwardServer(listenTcp, (message, socket) => {
+				socket.write(encodeMsgpack({ ack: message.option.chunk }));
+			});
+			const transport = fluentdTransport({ host: '127.0.0.1', port: server.port, requireAck: true });
+			configureLogging({ transports: [transport] });
+			await structuredLogger.info('acked');
+			await transport.flush!();
+
+			expect(server.messages).toHaveLength(1);
+			expect(server.messages[0]!.option.chunk).toMatch(/^[A-Za-z0-9+/]+=*$/);
+			expect(server.messages[0]!.option.size).toBe(1);
+			await transport.close!();
+		});
+
+		it('should resend unacknowledged chunks', async () => {
+			let seen = 0;
+			server = await startForwardServer(listenTcp, (message, socket) => {
+				seen++;
+				if (seen > 1) socket.write(encodeMsgpack({ ack: message.option.chunk }));
+			});
+			const transport = fluentdTransport({
+				host: '127.0.0.1',
+				port: server.port,
+				requireAck: true,
+				ackTimeoutMs: 50,
+			});
+			configureLogging({ transports: [transport] });
+			await structuredLogger.info('retried');
+			await transport.flush!();
+
+			expect(server.messages).toHaveLength(2);
+			expect(server.messages[1]!.option.chunk).toBe(server.messages[0]!.option.chunk);
+			await transport.close!();
+		});
+
+		it('should report chunks that are never acknowledged', async () => {
+			const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+			server = await startForwardServer(listenTcp);
+			const transport = fluentdTransport({
+				host: '127.0.0.1',
+				port: server.port,
+				requireAck: true,
+				ackTimeoutMs: 20,
+				maxAttempts: 2,
+			});
+			configureLogging({ transports: [transport] });
+			await structuredLogger.info({ component: 'jobs' }, 'unacked');
+			await transport.flush!();
+
+			expect(server.messages).toHaveLength(2);
+			expect(errorSpy).toHaveBeenCalledWith(
+				'Failed to send logs to Fluentd:',
+				expect.objectContaining({ message: 'No ack for 1 entries tagged "app.jobs" after 2 attempts' }),
+			);
+			await transport.close!();
+		});
+	});
+
+	describe('unix socket', () => {
+		it('should send messages over a Unix socket', async () => {
+			const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'fluentd-test-'));
+			const socketPath = path.join(dir, 'fluent.sock');
+			const server = await startForwardServer(
+				(s) => new Promise((resolve) => s.listen(socketPath, () => resolve())),
+			);
+			try {
+				const transport = fluentdTransport({ protocol: 'unix', path: socketPath });
+				configureLogging({ transports: [transport] });
+				await structuredLogger.info('over unix');
+				await transport.close!();
+				await vi.waitFor(() => expect(server.messages).toHaveLength(1));
+				expect(server.messages[0]!.entries[0]![1].message).toBe('over unix');
+			} finally {
+				await server.close();
+				await fs.rm(dir, { recursive: true, force: true });
+			}
+		});
+	});
+});
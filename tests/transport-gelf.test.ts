@@ -0,0 +1,233 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import dgram from 'node:dgram';
+import net from 'node:net';
+import { gunzipSync } from 'node:zlib';
+import {
+	structuredLogger,
+	logAdminFileActivity,
+	gelfTransport,
+	toGelfMessage,
+	configureLogging,
+	resetLoggingConfig,
+} from '../src/index.js';
+import { chunkGelfPayload } from '../src/transport-gelf.js';
+import { record } from './helpers.js';
+
+function reassemble(datagrams: Buffer[]): Buffer {
+	if (datagrams[0]![0] !== 0x1e) return datagrams[0]!;
+	const ordered = [...datagrams].sort((a, b) => a[10]! - b[10]!);
+	return Buffer.concat(ordered.map((chunk) => chunk.subarray(12)));
+}
+
+describe('transport-gelf', () => {
+	beforeEach(() => {
+		resetLoggingConfig();
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe('toGelfMessage', () => {
+		it('should build a GELF 1.1 message with prefixed context fields', () => {
+			expect(
+				toGelfMessage(
+					record({
+						level: 'warn',
+						timestamp: Date.parse('2026-01-01T00:00:00.250Z'),
+						context: { component: 'auth', userId: 'u1', attempts: 3, ok: false },
+						traceId: 't1',
+					}),
+					'web1',
+				),
+			).toEqual({
+				version: '1.1',
+				host: 'web1',
+				short_message: 'hello',
+				timestamp: 1767225600.25,
+				level: 4,
+				_component: 'auth',
+				_userId: 'u1',
+				_attempts: 3,
+				_ok: 'false',
+				_log_source: 'structured',
+				_trace_id: 't1',
+			});
+		});
+
+		it('should map levels to syslog severities', () => {
+			expect(toGelfMessage(record({ level: 'debug' })).level).toBe(7);
+			expect(toGelfMessage(record({ level: 'info' })).level).toBe(6);
+			expect(toGelfMessage(record({ level: 'error' })).level).toBe(3);
+			expect(toGelfMessage(record({ level: 'fatal' })).level).toBe(5);
+		});
+
+		it('should sanitize field names and avoid the reserved _id field', () => {
+			const message = toGelfMessage(record({ context: { id: 'x', 'user name': 'a', nested: { a: 1 } } }));
+			expect(message._ctx_id).toBe('x');
+			expect(message._user_name).toBe('a');
+			expect(message._nested).toBe('{"a":1}');
+			expect(message).not.toHaveProperty('_id');
+		});
+
+		it('should include static fields and audit columns', () => {
+			const message = toGelfMessage(
+				record({
+					source: 'audit',
+					context: { component: 'audit', action: 'user.delete' },
+					audit: {
+						id: 'a1',
+						admin_user_id: 'u1',
+						admin_email: 'a@b.com',
+						action: 'user.delete',
+						resource_type: 'user',
+						resource_id: 'u2',
+						ip_address: '10.0.0.1',
+						user_agent: null,
+						details: null,
+						created_at: '2026-01-01T00:00:00.000Z',
+					},
+				}),
+				'web1',
+				{ environment: 'prod' },
+			);
+			expect(message).toMatchObject({
+				_environment: 'prod',
+				_log_source: 'audit',
+				_audit_id: 'a1',
+				_admin_user_id: 'u1',
+				_admin_email: 'a@b.com',
+				_resource_type: 'user',
+				_resource_id: 'u2',
+				_ip_address: '10.0.0.1',
+			});
+			expect(message).not.toHaveProperty('_user_agent');
+		});
+	});
+
+	describe('chunkGelfPayload', () => {
+		it('should not chunk small payloads', () => {
+			const payload = Buffer.from('small');
+			expect(chunkGelfPayload(payload, 100)).toEqual([payload]);
+		});
+
+		it('should split large payloads into headed chunks', () => {
+			const payload = Buffer.alloc(250, 'x');
+			const chunks = chunkGelfPayload(payload, 100);
+			expect(chunks).toHaveLength(3);
+			const id = chunks[0]!.subarray(2, 10);
+			chunks.forEach((chunk, i) => {
+				expect(chunk.length).toBeLessThanOrEqual(100);
+				expect([chunk[0], chunk[1]]).toEqual([0x1e, 0x0f]);
+				expect(chunk.subarray(2, 10)).toEqual(id);
+				expect([chunk[10], chunk[11]]).toEqual([i, 3]);
+			});
+			expect(reassemble(chunks)).toEqual(payload);
+		});
+
+		it('should reject payloads that need more than 128 chunks', () => {
+			expect(() => chunkGelfPayload(Buffer.alloc(129 * 88 + 1), 100)).toThrow(/128/);
+		});
+	});
+
+	describe('udp', () => {
+		let server: dgram.Socket;
+		let port: number;
+		let datagrams: Buffer[];
+
+		beforeEach(async () => {
+			datagrams = [];
+			server = dgram.createSocket('udp4');
+			server.on('message', (msg) => datagrams.push(msg));
+			await new Promise<void>((resolve) => server.bind(0, '127.0.0.1', () => resolve()));
+			port = server.address().port;
+		});
+
+		afterEach(async () => {
+			await new Promise<void>((resolve) => server.close(() => resolve()));
+		});
+
+		it('should send uncompressed messages', async () => {
+			const transport = gelfTransport({ host: '127.0.0.1', port, hostname: 'web1' });
+			configureLogging({ transports: [transport] });
+			await structuredLogger.error({ component: 'db' }, 'connection lost');
+			await transport.close!();
+			await vi.waitFor(() => expect(datagrams).toHaveLength(1));
+			expect(JSON.parse(datagrams[0]!.toString('utf8'))).toMatchObject({
+				host: 'web1',
+				short_message: 'connection lost',
+				level: 3,
+				_component: 'db',
+			});
+		});
+
+		it('should gzip and chunk large messages', async () => {
+			const transport = gelfTransport({
+				host: '127.0.0.1',
+				port,
+				compression: 'gzip',
+				maxChunkSize: 200,
+			});
+			configureLogging({ transports: [transport] });
+			const blob = Array.from({ length: 400 }, (_, i) => `${i.toString(36)}-${(i * 7919).toString(16)}`).join(',');
+			await structuredLogger.info({ blob }, 'large');
+			await transport.close!();
+
+			await vi.waitFor(() => expect(datagrams.length).toBeGreaterThan(1));
+			const message = JSON.parse(gunzipSync(reassemble(datagrams)).toString('utf8'));
+			expect(message.short_message).toBe('large');
+			expect(message._blob).toBe(blob);
+		});
+
+		it('should send admin audit records', async () => {
+			const transport = gelfTransport({ host: '127.0.0.1', port, sources: ['audit'] });
+			configureLogging({ auditLog: vi.fn().mockResolvedValue(undefined), transports: [transport] });
+			await structuredLogger.info('not audit');
+			await logAdminFileActivity({ id: 'u1', email: 'a@b.com' }, '10.0.0.1', 'UA', {
+				action: 'user.delete',
+				resourceType: 'user',
+				resourceId: 'u2',
+			});
+			await transport.close!();
+			await vi.waitFor(() => expect(datagrams).toHaveLength(1));
+			expect(JSON.parse(datagrams[0]!.toString('utf8'))).toMatchObject({
+				short_message: 'user.delete',
+				_log_source: 'audit',
+				_admin_email: 'a@b.com',
+				_ip_address: '10.0.0.1',
+				_user_agent: 'UA',
+			});
+		});
+	});
+
+	describe('tcp', () => {
+		it('should send null-byte framed messages', async () => {
+			let data = '';
+			const connections: net.Socket[] = [];
+			const server = net.createServer((socket) => {
+				connections.push(socket);
+				socket.on('data', (chunk) => {
+					data += chunk.toString('utf8');
+				});
+			});
+			await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', () => resolve()));
+			const { port } = server.address() as net.AddressInfo;
+
+			try {
+				const transport = gelfTransport({ protocol: 'tcp', host: '127.0.0.1', port });
+				configureLogging({ transports: [transport] });
+				await structuredLogger.info('one');
+				await structuredLogger.warn('two');
+				await transport.close!();
+				await vi.waitFor(() => expect(data.split('\0')).toHaveLength(3));
+				const messages = data.split('\0').slice(0, 2).map((frame) => JSON.parse(frame));
+				expect(messages.map((m) => m.short_message)).toEqual(['one', 'two']);
+				expect(messages.map((m) => m.level)).toEqual([6, 4]);
+			} finally {
+				for (const socket of connections) socket.destroy();
+				await new Promise<void>((resolve) => server.close(() => resolve()));
+			}
+		});
+	});
+});
@@ -0,0 +1,310 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+	structuredLogger,
+	otlpTransport,
+	configureLogging,
+	resetLoggingConfig,
+	_setTraceApi,
+} from '../src/index.js';
+import { toAnyValue, toOtlpLogRecord } from '../src/transport-otlp.js';
+import { decodeMessage, decodeString } from '../src/protobuf.js';
+import type { ProtoField } from '../src/protobuf.js';
+
+interface Captured {
+	headers: http.IncomingHttpHeaders;
+	body: Buffer;
+}
+
+function startCollector(status = 200): Promise<{ url: string; requests: Captured[]; close: () => Promise<void> }> {
+	const requests: Captured[] = [];
+	const server = http.createServer((req, res) => {
+		const chunks: Buffer[] = [];
+		req.on('data', (chunk) => chunks.push(chunk));
+		req.on('end', () => {
+			requests.push({ headers: req.headers, body: Buffer.concat(chunks) });
+			res.statusCode = status;
+			res.end('{}');
+		});
+	});
+	return new Promise((resolve) => {
+		server.listen(0, '127.0.0.1', () => {
+			const { port } = server.address() as AddressInfo;
+			resolve({
+				url: `http://127.0.0.1:${port}/v1/logs`,
+				requests,
+				close: () => new Promise((r) => server.close(() => r())),
+			});
+		});
+	});
+}
+
+function field(fields: ProtoField[], num: number): Uint8Array[] {
+	return fields.filter((f) => f.field === num).map((f) => f.value as Uint8Array);
+}
+
+describe('transport-otlp', () => {
+	let collector: Awaited<ReturnType<typeof startCollector>>;
+
+	beforeEach(async () => {
+		resetLoggingConfig();
+		_setTraceApi(undefined);
+		collector = await startCollector();
+	});
+
+	afterEach(async () => {
+		vi.restoreAllMocks();
+		await collector.close();
+	});
+
+	describe('toAnyValue', () => {
+		it('should map primitives', () => {
+			expect(toAnyValue('a')).toEqual({ stringValue: 'a' });
+			expect(toAnyValue(true)).toEqual({ boolValue: true });
+			expect(toAnyValue(42)).toEqual({ intValue: '42' });
+			expect(toAnyValue(1.5)).toEqual({ doubleValue: 1.5 });
+			expect(toAnyValue(undefined)).toBeUndefined();
+		});
+
+		it('should map arrays and objects', () => {
+			expect(toAnyValue([1, 'x'])).toEqual({
+				arrayValue: { values: [{ intValue: '1' }, { stringValue: 'x' }] },
+			});
+			expect(toAnyValue({ a: 1 })).toEqual({
+				kvlistValue: { values: [{ key: 'a', value: { intValue: '1' } }] },
+			});
+		});
+	});
+
+	describe('toOtlpLogRecord', () => {
+		it('should map levels to severity numbers', () => {
+			const base = { source: 'structured' as const, message: 'm', timestamp: 0, context: {} };
+			expect(toOtlpLogRecord({ ...base, level: 'debug' }).severityNumber).toBe(5);
+			expect(toOtlpLogRecord({ ...base, level: 'info' }).severityNumber).toBe(9);
+			expect(toOtlpLogRecord({ ...base, level: 'warn' }).severityNumber).toBe(13);
+			expect(toOtlpLogRecord({ ...base, level: 'error' }).severityNumber).toBe(17);
+		});
+
+		it('should map context keys to attributes and trace IDs to trace fields', () => {
+			const record = toOtlpLogRecord(
+				{
+					source: 'structured',
+					level: 'info',
+					message: 'hello',
+					timestamp: 1767225600123,
+					context: { component: 'auth', userId: 'u1' },
+					traceId: '0af7651916cd43dd8448eb211c80319c',
+					spanId: 'b7ad6b7169203331',
+				},
+				1767225600200,
+			);
+			expect(record).toEqual({
+				timeUnixNano: '1767225600123000000',
+				observedTimeUnixNano: '1767225600200000000',
+				severityNumber: 9,
+				severityText: 'INFO',
+				body: { stringValue: 'hello' },
+				attributes: [
+					{ key: 'component', value: { stringValue: 'auth' } },
+					{ key: 'userId', value: { stringValue: 'u1' } },
+					{ key: 'log.source', value: { stringValue: 'structured' } },
+				],
+				traceId: '0af7651916cd43dd8448eb211c80319c',
+				spanId: 'b7ad6b7169203331',
+			});
+		});
+
+		it('should keep malformed trace IDs as attributes', () => {
+			const record = toOtlpLogRecord({
+				source: 'structured',
+				level: 'info',
+				message: 'm',
+				timestamp: 0,
+				context: {},
+				traceId: 'not-hex',
+			});
+			expect(record.traceId).toBeUndefined();
+			expect(record.attributes).toContainEqual({ key: 'trace_id', value: { stringValue: 'not-hex' } });
+		});
+	});
+
+	describe('JSON export', () => {
+		it('should export batched records with resource attributes', async () => {
+			configureLogging({
+				serviceName: 'billing',
+				transports: [otlpTransport({ url: collector.url, resource: { 'service.version': '1.2.3' } })],
+			});
+			const transport = (await import('../src/config.js')).getLoggingConfig().transports![0]!;
+			await structuredLogger.info({ component: 'api' }, 'first');
+			await structuredLogger.error('second');
+			await transport.flush!();
+
+			expect(collector.requests).toHaveLength(1);
+			const { headers, body } = collector.requests[0]!;
+			expect(headers['content-type']).toBe('application/json');
+			const payload = JSON.parse(body.toString('utf8'));
+			const [resourceLogs] = payload.resourceLogs;
+			expect(resourceLogs.resource.attributes).toEqual([
+				{ key: 'service.name', value: { stringValue: 'billing' } },
+				{ key: 'service.version', value: { stringValue: '1.2.3' } },
+			]);
+			const records = resourceLogs.scopeLogs[0].logRecords;
+			expect(records.map((r: { body: { stringValue: string } }) => r.body.stringValue)).toEqual([
+				'first',
+				'second',
+			]);
+			expect(records[1].severityNumber).toBe(17);
+		});
+
+		it('should include active span IDs', async () => {
+			_setTraceApi({
+				getActiveSpan: () => ({
+					spanContext: () => ({
+						traceId: '0af7651916cd43dd8448eb211c80319c',
+						spanId: 'b7ad6b7169203331',
+					}),
+				}),
+			} as any);
+			const transport = otlpTransport({ url: collector.url });
+			configureLogging({ transports: [transport] });
+			await structuredLogger.info('traced');
+			await transport.flush!();
+			const payload = JSON.parse(collector.requests[0]!.body.toString('utf8'));
+			const record = payload.resourceLogs[0].scopeLogs[0].logRecords[0];
+			expect(record.traceId).toBe('0af7651916cd43dd8448eb211c80319c');
+			expect(record.spanId).toBe('b7ad6b7169203331');
+		});
+
+		it('should send a batch as soon as the batch size is reached', async () => {
+			const transport = otlpTransport({ url: collector.url, batchSize: 2, flushIntervalMs: 60000 });
+			configureLogging({ transports: [transport] });
+			await structuredLogger.info('a');
+			await structuredLogger.info('b');
+			await vi.waitFor(() => expect(collector.requests).toHaveLength(1));
+			await structuredLogger.info('c');
+			await transport.close!();
+			expect(collector.requests).toHaveLength(2);
+			const batchSizes = collector.requests.map(
+				(r) => JSON.parse(r.body.toString('utf8')).resourceLogs[0].scopeLogs[0].logRecords.length,
+			);
+			expect(batchSizes).toEqual([2, 1]);
+		});
+
+		it('should flush on the interval', async () => {
+			const transport = otlpTransport({ url: collector.url, flushIntervalMs: 10 });
+			configureLogging({ transports: [transport] });
+			await structuredLogger.info('timed');
+			await vi.waitFor(() => expect(collector.requests).toHaveLength(1));
+		});
+
+		it('should pass custom headers', async () => {
+			const transport = otlpTransport({ url: collector.url, headers: { 'X-Tenant': 't1' } });
+			configureLogging({ transports: [transport] });
+			await structuredLogger.info('headers');
+			await transport.flush!();
+			expect(collector.requests[0]!.headers['x-tenant']).toBe('t1');
+		});
+
+		it('should report failed exports', async () => {
+			const failing = await startCollector(500);
+			const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+			try {
+				const transport = otlpTransport({ url: failing.url });
+				configureLogging({ transports: [transport] });
+				await structuredLogger.info('fails');
+				await transport.flush!();
+				expect(errorSpy).toHaveBeenCalledWith(
+					'Failed to export logs to OTLP collector:',
+					expect.any(Error),
+				);
+			} finally {
+				await failing.close();
+			}
+		});
+
+		it('should time out exports that get no response', async () => {
+			const server = http.createServer(() => {});
+			await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+			const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+			try {
+				const { port } = server.address() as AddressInfo;
+				const transport = otlpTransport({ url: `http://127.0.0.1:${port}/v1/logs`, requestTimeoutMs: 50 });
+				configureLogging({ transports: [transport] });
+				await structuredLogger.info('stuck');
+				await transport.flush!();
+				expect(errorSpy).toHaveBeenCalledWith(
+					'Failed to export logs to OTLP collector:',
+					expect.objectContaining({ name: 'TimeoutError' }),
+				);
+			} finally {
+				server.closeAllConnections();
+				await new Promise((r) => server.close(r));
+			}
+		});
+
+		it('should drop the oldest records when the queue is full', async () => {
+			const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+			const transport = otlpTransport({ url: collector.url, maxQueueSize: 2, flushIntervalMs: 60000 });
+			configureLogging({ transports: [transport] });
+			for (const message of ['a', 'b', 'c', 'd', 'e']) await structuredLogger.info(message);
+			await transport.flush!();
+
+			const body = JSON.parse(collector.requests[0]!.body.toString('utf8'));
+			const records: { body: { stringValue: string } }[] = body.resourceLogs[0].scopeLogs[0].logRecords;
+			expect(records.map((r) => r.body.stringValue)).toEqual(['d', 'e']);
+			expect(errorSpy).toHaveBeenCalledWith(
+				'Failed to export logs to OTLP collector:',
+				expect.objectContaining({ message: 'Dropped 3 log records because the queue was full' }),
+			);
+		});
+	});
+
+	describe('protobuf export', () => {
+		it('should encode an ExportLogsServiceRequest', async () => {
+			configureLogging({ serviceName: 'billing' });
+			const transport = otlpTransport({ url: collector.url, protocol: 'protobuf' });
+			configureLogging({ transports: [transport] });
+			_setTraceApi({
+				getActiveSpan: () => ({
+					spanContext: () => ({
+						traceId: '0af7651916cd43dd8448eb211c80319c',
+						spanId: 'b7ad6b7169203331',
+					}),
+				}),
+			} as any);
+			await structuredLogger.warn({ component: 'db', retries: 3 }, 'slow query');
+			await transport.flush!();
+
+			const { headers, body } = collector.requests[0]!;
+			expect(headers['content-type']).toBe('application/x-protobuf');
+
+			const request = decodeMessage(body);
+			const resourceLogs = decodeMessage(field(request, 1)[0]!);
+			const resource = decodeMessage(field(resourceLogs, 1)[0]!);
+			const serviceName = decodeMessage(field(resource, 1)[0]!);
+			expect(decodeString(field(serviceName, 1)[0]!)).toBe('service.name');
+			expect(decodeString(field(decodeMessage(field(serviceName, 2)[0]!), 1)[0]!)).toBe('billing');
+
+			const scopeLogs = decodeMessage(field(resourceLogs, 2)[0]!);
+			const scope = decodeMessage(field(scopeLogs, 1)[0]!);
+			expect(decodeString(field(scope, 1)[0]!)).toBe('@tummycrypt/tinyland-logging');
+
+			const logRecord = decodeMessage(field(scopeLogs, 2)[0]!);
+			const severity = logRecord.find((f) => f.field === 2)!.value as bigint;
+			expect(severity).toBe(13n);
+			expect(decodeString(field(logRecord, 3)[0]!)).toBe('WARN');
+			expect(decodeString(field(decodeMessage(field(logRecord, 5)[0]!), 1)[0]!)).toBe('slow query');
+			expect(Buffer.from(field(logRecord, 9)[0]!).toString('hex')).toBe(
+				'0af7651916cd43dd8448eb211c80319c',
+			);
+			expect(Buffer.from(field(logRecord, 10)[0]!).toString('hex')).toBe('b7ad6b7169203331');
+
+			const attributes = field(logRecord, 6).map((kv) => decodeMessage(kv));
+			const keys = attributes.map((kv) => decodeString(field(kv, 1)[0]!));
+			expect(keys).toEqual(['component', 'retries', 'log.source']);
+			const retries = decodeMessage(field(attributes[1]!, 2)[0]!);
+			expect(retries[0]).toEqual({ field: 3, wireType: 0, value: 3n });
+		});
+	});
+});
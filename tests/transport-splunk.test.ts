@@ -0,0 +1,271 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+	structuredLogger,
+	logAdminFileActivity,
+	splunkTransport,
+	toSplunkEvent,
+	configureLogging,
+	resetLoggingConfig,
+} from '../src/index.js';
+import type { LogRecord } from '../src/index.js';
+
+interface HecRequest {
+	url: string;
+	headers: http.IncomingHttpHeaders;
+	body: string;
+}
+
+type Responder = (request: HecRequest) => { status: number; body: unknown } | null;
+
+async function startHec(respond: Responder) {
+	const requests: HecRequest[] = [];
+	const server = http.createServer((req, res) => {
+		let body = '';
+		req.on('data', (chunk) => {
+			body += chunk;
+		});
+		req.on('end', () => {
+			const request = { url: req.url ?? '', headers: req.headers, body };
+			requests.push(request);
+			const response = respond(request);
+			if (!response) return;
+			res.statusCode = response.status;
+			res.setHeader('Content-Type', 'application/json');
+			res.end(JSON.stringify(response.body));
+		});
+	});
+	await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', () => resolve()));
+	const { port } = server.address() as AddressInfo;
+	return {
+		url: `http://127.0.0.1:${port}`,
+		requests,
+		close: () => {
+			server.closeAllConnections();
+			return new Promise<void>((resolve) => server.close(() => resolve()));
+		},
+	};
+}
+
+function parseEvents(body: string): Array<Record<string, any>> {
+	return body
+		.replace(/}{"time"/g, '}\n{"time"')
+		.split('\n')
+		.map((line) => JSON.parse(line));
+}
+
+const success = () => ({ status: 200, body: { text: 'Success', code: 0 } });
+
+describe('transport-splunk', () => {
+	let errorSpy: ReturnType<typeof vi.spyOn>;
+	let hec: Awaited<ReturnType<typeof startHec>> | undefined;
+
+	beforeEach(() => {
+		resetLoggingConfig();
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+		errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+	});
+
+	afterEach(async () => {
+		vi.restoreAllMocks();
+		await hec?.close();
+		hec = undefined;
+	});
+
+	describe('toSplunkEvent', () => {
+		const record: LogRecord = {
+			source: 'structured',
+			level: 'info',
+			message: 'hello',
+			timestamp: Date.parse('2026-01-01T00:00:00.123Z'),
+			context: { component: 'api' },
+		};
+
+		it('should use epoch seconds and the configured metadata', () => {
+			expect(
+				toSplunkEvent(record, { host: 'web1', index: 'app', source: 'tinyland', sourcetype: 'app:json' }),
+			).toEqual({
+				time: 1767225600.123,
+				host: 'web1',
+				source: 'tinyland',
+				sourcetype: 'app:json',
+				index: 'app',
+				event: {
+					level: 'info',
+					message: 'hello',
+					component: 'api',
+					source: 'structured',
+				},
+			});
+		});
+
+		it('should route audit records to the audit index', () => {
+			const audit = { ...record, source: 'audit' as const };
+			expect(toSplunkEvent(audit, { index: 'app', auditIndex: 'audit' }).index).toBe('audit');
+			expect(toSplunkEvent(audit, { index: 'app' }).index).toBe('app');
+			expect(toSplunkEvent(record, { auditIndex: 'audit' })).not.toHaveProperty('index');
+		});
+	});
+
+	it('should batch events to the event endpoint with token auth', async () => {
+		hec = await startHec(success);
+		const transport = splunkTransport({ url: hec.url, token: 'secret', index: 'main', host: 'web1' });
+		configureLogging({ transports: [transport] });
+		await structuredLogger.info({ component: 'api' }, 'first');
+		await structuredLogger.error('second');
+		await transport.flush!();
+
+		expect(hec.requests).toHaveLength(1);
+		const [request] = hec.requests;
+		expect(request!.url).toBe('/services/collector/event');
+		expect(request!.headers.authorization).toBe('Splunk secret');
+		expect(request!.headers['x-splunk-request-channel']).toBeUndefined();
+		const events = parseEvents(request!.body);
+		expect(events.map((e) => e.event.message)).toEqual(['first', 'second']);
+		expect(events[0]).toMatchObject({ index: 'main', host: 'web1', sourcetype: '_json' });
+		expect(typeof events[0]!.time).toBe('number');
+	});
+
+	it('should send admin audit records to a separate index', async () => {
+		hec = await startHec(success);
+		const transport = splunkTransport({ url: hec.url, token: 't', index: 'app', auditIndex: 'security' });
+		configureLogging({ auditLog: vi.fn().mockResolvedValue(undefined), transports: [transport] });
+		await structuredLogger.info('app event');
+		await logAdminFileActivity({ id: 'u1', email: 'a@b.com' }, '10.0.0.1', null, { action: 'user.delete' });
+		await transport.flush!();
+
+		const events = hec.requests.flatMap((r) => parseEvents(r.body));
+		expect(events.map((e) => [e.index, e.event.source])).toEqual([
+			['app', 'structured'],
+			['security', 'audit'],
+		]);
+		expect(events[1]!.event.audit).toMatchObject({ admin_email: 'a@b.com', action: 'user.delete' });
+	});
+
+	it('should split batches by count', async () => {
+		hec = await startHec(success);
+		const transport = splunkTransport({ url: hec.url, token: 't', batchSize: 2, flushIntervalMs: 60000 });
+		configureLogging({ transports: [transport] });
+		for (let i = 0; i < 3; i++) await structuredLogger.info(`event ${i}`);
+		await transport.close!();
+		expect(hec.requests.map((r) => parseEvents(r.body).length)).toEqual([2, 1]);
+	});
+
+	it('should retry on server errors', async () => {
+		let calls = 0;
+		hec = await startHec(() => (++calls === 1 ? { status: 503, body: { text: 'Server is busy', code: 9 } } : success()));
+		const transport = splunkTransport({ url: hec.url, token: 't', baseDelayMs: 1 });
+		configureLogging({ transports: [transport] });
+		await structuredLogger.info('retried');
+		await transport.flush!();
+		expect(hec.requests).toHaveLength(2);
+		expect(errorSpy).not.toHaveBeenCalled();
+	});
+
+	it('should time out and retry requests that get no response', async () => {
+		let calls = 0;
+		hec = await startHec(() => (++calls === 1 ? null : success()));
+		const transport = splunkTransport({ url: hec.url, token: 't', baseDelayMs: 1, requestTimeoutMs: 50 });
+		configureLogging({ transports: [transport] });
+		await structuredLogger.info('slow');
+		await transport.flush!();
+		expect(hec.requests).toHaveLength(2);
+		expect(parseEvents(hec.requests[1]!.body)[0]!.event.message).toBe('slow');
+		expect(errorSpy).not.toHaveBeenCalled();
+	});
+
+	it('should drop the oldest events when the queue is full', async () => {
+		hec = await startHec(success);
+		const transport = splunkTransport({ url: hec.url, token: 't', maxQueueSize: 2, flushIntervalMs: 60000 });
+		configureLogging({ transports: [transport] });
+		for (let i = 0; i < 3; i++) await structuredLogger.info(`event ${i}`);
+		await transport.flush!();
+		expect(parseEvents(hec.requests[0]!.body).map((e) => e.event.message)).toEqual(['event 1', 'event 2']);
+		expect(errorSpy).toHaveBeenCalledWith(
+			'Failed to send logs to Splunk HEC:',
+			expect.objectContaining({ message: 'Dropped 1 log records because the queue was full' }),
+		);
+	});
+
+	it('should not retry rejected requests', async () => {
+		hec = await startHec(() => ({ status: 403, body: { text: 'Invalid token', code: 4 } }));
+		const transport = splunkTransport({ url: hec.url, token: 'bad', baseDelayMs: 1 });
+		configureLogging({ transports: [transport] });
+		await structuredLogger.info('denied');
+		await transport.flush!();
+		expect(hec.requests).toHaveLength(1);
+		expect(errorSpy).toHaveBeenCalledWith(
+			'Failed to send logs to Splunk HEC:',
+			expect.objectContaining({ message: 'Splunk HEC request failed with status 403: Invalid token' }),
+		);
+	});
+
+	describe('indexer acknowledgement', () => {
+		it('should poll the ack endpoint with the channel ID', async () => {
+			let polls = 0;
+			hec = await startHec((request) => {
+				if (request.url === '/services/collector/event') {
+					return { status: 200, body: { text: 'Success', code: 0, ackId: 7 } };
+				}
+				polls++;
+				return { status: 200, body: { acks: { '7': polls > 1 } } };
+			});
+			const transport = splunkTransport({
+				url: hec.url,
+				token: 't',
+				ack: { channel: '11111111-2222-3333-4444-555555555555', pollIntervalMs: 5 },
+			});
+			configureLogging({ transports: [transport] });
+			await structuredLogger.info('acked');
+			await transport.flush!();
+
+			expect(hec.requests.map((r) => r.url)).toEqual([
+				'/services/collector/event',
+				'/services/collector/ack',
+				'/services/collector/ack',
+			]);
+			for (const request of hec.requests) {
+				expect(request.headers['x-splunk-request-channel']).toBe('11111111-2222-3333-4444-555555555555');
+			}
+			expect(JSON.parse(hec.requests[1]!.body)).toEqual({ acks: [7] });
+			expect(errorSpy).not.toHaveBeenCalled();
+		});
+
+		it('should generate a channel ID when ack is enabled', async () => {
+			hec = await startHec((request) =>
+				request.url === '/services/collector/event'
+					? { status: 200, body: { text: 'Success', code: 0, ackId: 1 } }
+					: { status: 200, body: { acks: { '1': true } } },
+			);
+			const transport = splunkTransport({ url: hec.url, token: 't', ack: true });
+			configureLogging({ transports: [transport] });
+			await structuredLogger.info('generated channel');
+			await transport.flush!();
+			expect(hec.requests[0]!.headers['x-splunk-request-channel']).toMatch(/^[0-9a-f-]{36}$/);
+		}, 10000);
+
+		it('should resend events when the ack times out', async () => {
+			let ackId = 0;
+			hec = await startHec((request) =>
+				request.url === '/services/collector/event'
+					? { status: 200, body: { text: 'Success', code: 0, ackId: ++ackId } }
+					: { status: 200, body: { acks: { [String(ackId)]: ackId > 1 } } },
+			);
+			const transport = splunkTransport({
+				url: hec.url,
+				token: 't',
+				baseDelayMs: 1,
+				ack: { pollIntervalMs: 5, timeoutMs: 20 },
+			});
+			configureLogging({ transports: [transport] });
+			await structuredLogger.info('resent');
+			await transport.flush!();
+
+			const eventRequests = hec.requests.filter((r) => r.url === '/services/collector/event');
+			expect(eventRequests).toHaveLength(2);
+			expect(eventRequests[1]!.body).toBe(eventRequests[0]!.body);
+			expect(errorSpy).not.toHaveBeenCalled();
+		});
+	});
+});
@@ -0,0 +1,365 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import dgram from 'node:dgram';
+import net from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+import { promises as fs } from 'node:fs';
+import unixDgram from 'unix-dgram';
+import {
+	structuredLogger,
+	lokiLog,
+	syslogTransport,
+	formatSyslogMessage,
+	configureLogging,
+	resetLoggingConfig,
+	_resetBuffer,
+} from '../src/index.js';
+import { frameSyslogMessage } from '../src/transport-syslog.js';
+import { _setUnixDgram } from '../src/socket-sender.js';
+import { record } from './helpers.js';
+
+const FORMAT = {
+	facility: 1,
+	appName: 'app',
+	hostname: 'host1',
+	procId: '42',
+	sdId: 'context@32473',
+};
+
+function bindDatagramSocket(socketPath: string): { received: string[]; close: () => void } {
+	const received: string[] = [];
+	const socket = unixDgram.createSocket('unix_dgram', (message: Buffer) => received.push(message.toString('utf8')));
+	socket.bind(socketPath);
+	return { received, close: () => socket.close() };
+}
+
+function parseOctetFrames(data: string): string[] {
+	const frames: string[] = [];
+	let rest = Buffer.from(data, 'utf8');
+	while (rest.length > 0) {
+		const space = rest.indexOf(0x20);
+		const length = Number(rest.subarray(0, space).toString('ascii'));
+		frames.push(rest.subarray(space + 1, space + 1 + length).toString('utf8'));
+		rest = rest.subarray(space + 1 + length);
+	}
+	return frames;
+}
+
+describe('transport-syslog', () => {
+	beforeEach(() => {
+		resetLoggingConfig();
+		_resetBuffer();
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe('formatSyslogMessage', () => {
+		it('should render an RFC 5424 header and message', () => {
+			expect(formatSyslogMessage(record(), FORMAT)).toBe(
+				'<14>1 2026-01-01T00:00:00.000Z host1 app 42 - - hello',
+			);
+		});
+
+		it('should compute PRI from facility and level', () => {
+			const local0 = { ...FORMAT, facility: 16 };
+			expect(formatSyslogMessage(record({ level: 'debug' }), local0)).toMatch(/^<135>1 /);
+			expect(formatSyslogMessage(record({ level: 'warn' }), local0)).toMatch(/^<132>1 /);
+			expect(formatSyslogMessage(record({ level: 'error' }), local0)).toMatch(/^<131>1 /);
+			expect(formatSyslogMessage(record({ level: 'fatal' }), local0)).toMatch(/^<133>1 /);
+		});
+
+		it('should use the component as MSGID and build structured data from context', () => {
+			const message = formatSyslogMessage(
+				record({
+					context: { component: 'auth', userId: 'u1', attempts: 3 },
+					traceId: 'abc',
+				}),
+				FORMAT,
+			);
+			expect(message).toBe(
+				'<14>1 2026-01-01T00:00:00.000Z host1 app 42 auth ' +
+					'[context@32473 component="auth" userId="u1" attempts="3" trace_id="abc"] hello',
+			);
+		});
+
+		it('should escape structured data values and sanitize names', () => {
+			const message = formatSyslogMessage(
+				record({ context: { 'bad key=': 'a "quoted" \\ value]', nested: { a: 1 } } }),
+				FORMAT,
+			);
+			expect(message).toContain('[context@32473 bad_key_="a \\"quoted\\" \\\\ value\\]" nested="{\\"a\\":1}"]');
+		});
+
+		it('should replace empty header fields with the nil value', () => {
+			const message = formatSyslogMessage(record(), { ...FORMAT, appName: '', hostname: 'has space' });
+			expect(message).toBe('<14>1 2026-01-01T00:00:00.000Z hasspace - 42 - - hello');
+		});
+	});
+
+	describe('frameSyslogMessage', () => {
+		it('should prefix the byte length for octet counting', () => {
+			expect(frameSyslogMessage('héllo', 'octet-counting').toString('utf8')).toBe('6 héllo');
+		});
+
+		it('should terminate newline frames and flatten embedded newlines', () => {
+			expect(frameSyslogMessage('a\nb', 'newline').toString('utf8')).toBe('a b\n');
+		});
+	});
+
+	describe('udp', () => {
+		let server: dgram.Socket;
+		let port: number;
+		let received: string[];
+
+		beforeEach(async () => {
+			received = [];
+			server = dgram.createSocket('udp4');
+			server.on('message', (msg) => received.push(msg.toString('utf8')));
+			await new Promise<void>((resolve) => server.bind(0, '127.0.0.1', () => resolve()));
+			port = server.address().port;
+		});
+
+		afterEach(async () => {
+			await new Promise<void>((resolve) => server.close(() => resolve()));
+		});
+
+		it('should send one datagram per record', async () => {
+			const transport = syslogTransport({
+				host: '127.0.0.1',
+				port,
+				facility: 'local3',
+				appName: 'api',
+				hostname: 'web1',
+			});
+			configureLogging({ transports: [transport] });
+			await structuredLogger.error({ component: 'db' }, 'connection lost');
+			lokiLog('WARN', 'slow request', { route: '/x' });
+			await transport.close!();
+
+			await vi.waitFor(() => expect(received).toHaveLength(2));
+			expect(received[0]).toMatch(
+				new RegExp(`^<155>1 \\S+ web1 api ${process.pid} db \\[context@32473 component="db"\\] connection lost$`),
+			);
+			expect(received[1]).toMatch(/^<156>1 .* \[context@32473 route="\/x"\] slow request$/);
+		});
+
+		it('should default the app name to the configured service name', async () => {
+			const transport = syslogTransport({ host: '127.0.0.1', port });
+			configureLogging({ serviceName: 'billing', transports: [transport] });
+			await structuredLogger.info('named');
+			await transport.close!();
+			await vi.waitFor(() => expect(received).toHaveLength(1));
+			expect(received[0]!.split(' ')[3]).toBe('billing');
+			expect(received[0]!.split(' ')[2]).toBe(os.hostname());
+		});
+	});
+
+	describe('tcp', () => {
+		let server: net.Server;
+		let port: number;
+		let data: string;
+		let connections: net.Socket[];
+
+		beforeEach(async () => {
+			data = '';
+			connections = [];
+			server = net.createServer((socket) => {
+				connections.push(socket);
+				socket.on('data', (chunk) => {
+					data += chunk.toString('utf8');
+				});
+			});
+			await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', () => resolve()));
+			port = (server.address() as net.AddressInfo).port;
+		});
+
+		afterEach(async () => {
+			for (const socket of connections) socket.destroy();
+			await new Promise<void>((resolve) => server.close(() => resolve()));
+		});
+
+		it('should send octet-counted frames', async () => {
+			const transport = syslogTransport({ protocol: 'tcp', host: '127.0.0.1', port, hostname: 'h' });
+			configureLogging({ transports: [transport] });
+			await structuredLogger.info('first');
+			await structuredLogger.info('multi\nline');
+			await vi.waitFor(() => expect(parseOctetFrames(data)).toHaveLength(2));
+			await transport.close!();
+
+			const frames = parseOctetFrames(data);
+			expect(frames[0]).toMatch(/ first$/);
+			expect(frames[1]).toMatch(/ multi\nline$/);
+		});
+
+		it('should reconnect after the connection drops', async () => {
+			const transport = syslogTransport({
+				protocol: 'tcp',
+				host: '127.0.0.1',
+				port,
+				reconnectDelayMs: 10,
+			});
+			configureLogging({ transports: [transport] });
+			await structuredLogger.info('before');
+			await vi.waitFor(() => expect(parseOctetFrames(data)).toHaveLength(1));
+
+			connections[0]!.destroy();
+			await vi.waitFor(() => expect(connections).toHaveLength(2));
+
+			await structuredLogger.info('after');
+			await vi.waitFor(() => expect(parseOctetFrames(data)).toHaveLength(2));
+			expect(parseOctetFrames(data)[1]).toMatch(/ after$/);
+			await transport.close!();
+		});
+
+		it('should queue records until the server is reachable', async () => {
+			const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+			const probe = net.createServer();
+			await new Promise<void>((resolve) => probe.listen(0, '127.0.0.1', () => resolve()));
+			const freePort = (probe.address() as net.AddressInfo).port;
+			await new Promise<void>((resolve) => probe.close(() => resolve()));
+
+			const transport = syslogTransport({
+				protocol: 'tcp',
+				host: '127.0.0.1',
+				port: freePort,
+				reconnectDelayMs: 10,
+			});
+			configureLogging({ transports: [transport] });
+			await structuredLogger.info('queued');
+			await vi.waitFor(() => expect(errorSpy).toHaveBeenCalledWith('Failed to send syslog message:', expect.any(Error)));
+
+			let late = '';
+			const lateServer = net.createServer((socket) => {
+				connections.push(socket);
+				socket.on('data', (chunk) => {
+					late += chunk.toString('utf8');
+				});
+			});
+			await new Promise<void>((resolve) => lateServer.listen(freePort, '127.0.0.1', () => resolve()));
+			try {
+				await vi.waitFor(() => expect(parseOctetFrames(late)).toHaveLength(1));
+				expect(parseOctetFrames(late)[0]).toMatch(/ queued$/);
+				await transport.close!();
+			} finally {
+				for (const socket of connections) socket.destroy();
+				await new Promise<void>((resolve) => lateServer.close(() => resolve()));
+			}
+		});
+	});
+
+	describe('unix stream socket', () => {
+		it('should send newline-framed messages', async () => {
+			const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'syslog-test-'));
+			const socketPath = path.join(dir, 'log.sock');
+			let data = '';
+			const server = net.createServer((socket) => {
+				socket.on('data', (chunk) => {
+					data += chunk.toString('utf8');
+				});
+			});
+			await new Promise<void>((resolve) => server.listen(socketPath, () => resolve()));
+
+			try {
+				const transport = syslogTransport({ protocol: 'unix-stream', path: socketPath });
+				configureLogging({ transports: [transport] });
+				await structuredLogger.warn('over unix');
+				await structuredLogger.info('second');
+				await transport.close!();
+				await vi.waitFor(() => expect(data.split('\n')).toHaveLength(3));
+				const lines = data.split('\n');
+				expect(lines[0]).toMatch(/^<12>1 .* over unix$/);
+				expect(lines[1]).toMatch(/^<14>1 .* second$/);
+			} finally {
+				await new Promise<void>((resolve) => server.close(() => resolve()));
+				await fs.rm(dir, { recursive: true, force: true });
+			}
+		});
+
+		it('should require a socket path', () => {
+			expect(() => syslogTransport({ protocol: 'unix-stream' })).toThrow('requires a socket path');
+		});
+
+		it('should point datagram sockets to the unix-dgram protocol', async () => {
+			const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+			const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'syslog-test-'));
+			const socketPath = path.join(dir, 'dgram.sock');
+			const server = bindDatagramSocket(socketPath);
+
+			try {
+				const transport = syslogTransport({ protocol: 'unix-stream', path: socketPath });
+				configureLogging({ transports: [transport] });
+				await structuredLogger.info('to datagram');
+				await transport.flush!();
+				await transport.close!();
+				expect(errorSpy).toHaveBeenCalledWith(
+					expect.stringContaining(`${socketPath} is not a stream socket (use protocol "unix-dgram"`),
+					expect.objectContaining({ code: 'EPROTOTYPE' }),
+				);
+			} finally {
+				server.close();
+				await fs.rm(dir, { recursive: true, force: true });
+			}
+		});
+	});
+
+	describe('unix datagram socket', () => {
+		let dir: string;
+
+		beforeEach(async () => {
+			dir = await fs.mkdtemp(path.join(os.tmpdir(), 'syslog-test-'));
+		});
+
+		afterEach(async () => {
+			_setUnixDgram(unixDgram);
+			await fs.rm(dir, { recursive: true, force: true });
+		});
+
+		it('should send one unframed datagram per record', async () => {
+			const socketPath = path.join(dir, 'log');
+			const server = bindDatagramSocket(socketPath);
+			try {
+				const transport = syslogTransport({ protocol: 'unix-dgram', path: socketPath });
+				configureLogging({ transports: [transport] });
+				await structuredLogger.warn('over /dev/log');
+				lokiLog('INFO', 'second', { component: 'db' });
+				await transport.close!();
+				await vi.waitFor(() => expect(server.received).toHaveLength(2));
+				expect(server.received[0]).toMatch(/^<12>1 .* over \/dev\/log$/);
+				expect(server.received[1]).toMatch(/^<14>1 .* db .* second$/);
+			} finally {
+				server.close();
+			}
+		});
+
+		it('should reconnect after the receiver restarts', async () => {
+			const socketPath = path.join(dir, 'log');
+			const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+			const transport = syslogTransport({ protocol: 'unix-dgram', path: socketPath });
+			configureLogging({ transports: [transport] });
+
+			await structuredLogger.info('nobody listening');
+			expect(errorSpy).toHaveBeenCalledWith(
+				'Failed to send syslog message:',
+				expect.objectContaining({ code: 'ENOENT', path: socketPath }),
+			);
+
+			const server = bindDatagramSocket(socketPath);
+			try {
+				await structuredLogger.info('back again');
+				await transport.close!();
+				await vi.waitFor(() => expect(server.received).toHaveLength(1));
+				expect(server.received[0]).toMatch(/back again$/);
+			} finally {
+				server.close();
+			}
+		});
+
+		it('should require the optional unix-dgram package', () => {
+			_setUnixDgram(undefined);
+			expect(() => syslogTransport({ protocol: 'unix-dgram' })).toThrow('optional "unix-dgram" package');
+		});
+	});
+});
@@ -0,0 +1,328 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import {
+	structuredLogger,
+	lokiLog,
+	flushLogs,
+	shutdownLogging,
+	logAdminFileActivity,
+	adminFileLogger,
+	logAdminFlatActivity,
+	consoleTransport,
+	writeLogTransport,
+	lokiTransport,
+	flushTransports,
+	closeTransports,
+	toLogEntry,
+	_resetBuffer,
+	_getBufferLength,
+	configureLogging,
+	resetLoggingConfig,
+} from '../src/index.js';
+import { dispatch } from '../src/transports.js';
+import { record, memoryTransport } from './helpers.js';
+
+describe('transports', () => {
+	let consoleSpy: ReturnType<typeof vi.spyOn>;
+	let consoleErrorSpy: ReturnType<typeof vi.spyOn>;
+
+	beforeEach(() => {
+		resetLoggingConfig();
+		_resetBuffer();
+		consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+		consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		vi.unstubAllGlobals();
+		_resetBuffer();
+	});
+
+	describe('dispatch', () => {
+		it('should write the record to every transport', async () => {
+			const a = memoryTransport();
+			const b = memoryTransport();
+			await dispatch(record(), [a, b]);
+			expect(a.records).toHaveLength(1);
+			expect(b.records).toHaveLength(1);
+		});
+
+		it('should apply per-transport level filters', async () => {
+			const all = memoryTransport();
+			const warnings = memoryTransport({ level: 'warn' });
+			await dispatch(record({ level: 'info' }), [all, warnings]);
+			await dispatch(record({ level: 'error' }), [all, warnings]);
+			expect(all.records).toHaveLength(2);
+			expect(warnings.records.map((r) => r.level)).toEqual(['error']);
+		});
+
+		it('should apply per-transport source filters', async () => {
+			const auditOnly = memoryTransport({ sources: ['audit'] });
+			await dispatch(record(), [auditOnly]);
+			await dispatch(record({ source: 'audit' }), [auditOnly]);
+			expect(auditOnly.records.map((r) => r.source)).toEqual(['audit']);
+		});
+
+		it('should isolate transports that throw', async () => {
+			const healthy = memoryTransport();
+			const broken = memoryTransport({
+				name: 'broken',
+				write: () => {
+					throw new Error('sync failure');
+				},
+			});
+			await expect(dispatch(record(), [broken, healthy])).resolves.toBeUndefined();
+			expect(healthy.records).toHaveLength(1);
+			expect(consoleErrorSpy).toHaveBeenCalledWith('Log transport "broken" failed:', expect.any(Error));
+		});
+
+		it('should isolate transports that reject', async () => {
+			const healthy = memoryTransport();
+			const broken = memoryTransport({
+				name: 'rejecting',
+				write: () => Promise.reject(new Error('async failure')),
+			});
+			await expect(dispatch(record(), [broken, healthy])).resolves.toBeUndefined();
+			expect(healthy.records).toHaveLength(1);
+			expect(consoleErrorSpy).toHaveBeenCalledWith('Log transport "rejecting" failed:', expect.any(Error));
+		});
+
+		it('should wait for asynchronous writes', async () => {
+			let finished = false;
+			const slow = memoryTransport({
+				write: async () => {
+					await new Promise((r) => setTimeout(r, 5));
+					finished = true;
+				},
+			});
+			await dispatch(record(), [slow]);
+			expect(finished).toBe(true);
+		});
+	});
+
+	describe('flushTransports and closeTransports', () => {
+		it('should call flush and close on configured transports', async () => {
+			const flush = vi.fn().mockResolvedValue(undefined);
+			const close = vi.fn().mockResolvedValue(undefined);
+			configureLogging({ transports: [memoryTransport({ flush, close }), memoryTransport()] });
+			await flushTransports();
+			await closeTransports();
+			expect(flush).toHaveBeenCalledTimes(1);
+			expect(close).toHaveBeenCalledTimes(1);
+		});
+
+		it('should isolate failures in flush and close', async () => {
+			const close = vi.fn().mockResolvedValue(undefined);
+			await closeTransports([
+				memoryTransport({ close: () => Promise.reject(new Error('close failed')) }),
+				memoryTransport({ close }),
+			]);
+			expect(close).toHaveBeenCalled();
+			expect(consoleErrorSpy).toHaveBeenCalled();
+		});
+
+		it('should close configured transports on shutdown', async () => {
+			const close = vi.fn().mockResolvedValue(undefined);
+			configureLogging({ transports: [memoryTransport({ close })] });
+			await shutdownLogging({ timeoutMs: 100 });
+			expect(close).toHaveBeenCalled();
+		});
+	});
+
+	describe('toLogEntry', () => {
+		it('should flatten a record into the writeLog entry shape', () => {
+			const entry = toLogEntry(
+				record({
+					traceId: 't1',
+					spanId: 's1',
+					context: { component: 'auth', userId: 'u1', requestId: 'r1', extra: 1 },
+				}),
+			);
+			expect(entry).toEqual({
+				level: 'info',
+				message: 'hello',
+				timestamp: Date.parse('2026-01-01T00:00:00.000Z'),
+				trace_id: 't1',
+				span_id: 's1',
+				component: 'auth',
+				action: undefined,
+				user_id: 'u1',
+				session_id: undefined,
+				request_id: 'r1',
+				extra: 1,
+			});
+		});
+	});
+
+	describe('built-in transports', () => {
+		it('should print structured records with the component tag', () => {
+			consoleTransport({ colors: false }).write(record({ context: { component: 'db', rows: 2 } }));
+			expect(consoleSpy.mock.calls[0][0]).toMatch(/INFO  \[db\] hello\n    rows: 2$/);
+		});
+
+		it('should print Loki records with their labels', () => {
+			consoleTransport({ colors: false }).write(record({ source: 'loki', labels: { env: 'x' } }));
+			expect(consoleSpy.mock.calls[0][0]).toMatch(/INFO  hello\n    env: x$/);
+		});
+
+		it('should print audit records with an audit badge', () => {
+			consoleTransport({ colors: false }).write(
+				record({ source: 'audit', context: { component: 'audit', action: 'user.delete' } }),
+			);
+			expect(consoleSpy.mock.calls[0][0]).toContain('AUDIT [audit] hello');
+		});
+
+		it('should print JSON lines in production', () => {
+			configureLogging({ nodeEnv: 'production' });
+			consoleTransport().write(record({ context: { component: 'db' } }));
+			expect(JSON.parse(consoleSpy.mock.calls[0][0])).toMatchObject({
+				level: 'info',
+				message: 'hello',
+				component: 'db',
+				timestamp: '2026-01-01T00:00:00.000Z',
+				source: 'structured',
+			});
+		});
+
+		it('should print logfmt and ECS lines', () => {
+			consoleTransport({ format: 'logfmt' }).write(record({ context: { component: 'db' } }));
+			consoleTransport({ format: 'ecs' }).write(record({ context: { component: 'db' } }));
+			expect(consoleSpy.mock.calls[0][0]).toBe(
+				'time=2026-01-01T00:00:00.000Z level=info msg=hello component=db source=structured',
+			);
+			expect(JSON.parse(consoleSpy.mock.calls[1][0])).toMatchObject({ 'log.level': 'info', 'log.logger': 'db' });
+		});
+
+		it('should honour an explicit console format', () => {
+			configureLogging({ nodeEnv: 'production' });
+			consoleTransport({ format: 'pretty', colors: false }).write(record());
+			expect(consoleSpy.mock.calls[0][0]).toContain('INFO  hello');
+		});
+
+		it('should pass entries to a writeLog function', async () => {
+			const writeLog = vi.fn().mockResolvedValue(undefined);
+			await writeLogTransport({ writeLog }).write(record());
+			expect(writeLog).toHaveBeenCalledWith(expect.objectContaining({ message: 'hello' }));
+		});
+
+		it('should fall back to the configured writeLog', async () => {
+			const writeLog = vi.fn().mockResolvedValue(undefined);
+			configureLogging({ writeLog });
+			await writeLogTransport().write(record());
+			expect(writeLog).toHaveBeenCalled();
+		});
+
+		it('should buffer structured records in Loki with stringified labels', async () => {
+			const fetchMock = vi.fn().mockResolvedValue({ ok: true });
+			vi.stubGlobal('fetch', fetchMock);
+			configureLogging({ lokiUrl: 'http://loki:3100', transports: [lokiTransport()] });
+			await structuredLogger.warn({ component: 'api', count: 3 }, 'to loki');
+			expect(_getBufferLength()).toBe(1);
+			await flushLogs();
+			const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+			expect(JSON.parse(body.streams[0].values[0][1])).toEqual({
+				level: 'WARN',
+				msg: 'to loki',
+				component: 'api',
+				count: '3',
+			});
+		});
+
+		it('should not buffer in the Loki transport when Loki is disabled', () => {
+			configureLogging({ transports: [lokiTransport()] });
+			lokiLog('INFO', 'disabled');
+			expect(_getBufferLength()).toBe(0);
+		});
+	});
+
+	describe('configured transports', () => {
+		it('should replace the default structured sinks', async () => {
+			const writeLog = vi.fn().mockResolvedValue(undefined);
+			const memory = memoryTransport();
+			configureLogging({ writeLog, nodeEnv: 'development', transports: [memory] });
+			await structuredLogger.info({ component: 'svc' }, 'custom sink');
+			expect(memory.records).toEqual([
+				expect.objectContaining({ source: 'structured', message: 'custom sink' }),
+			]);
+			expect(writeLog).not.toHaveBeenCalled();
+			expect(consoleSpy).not.toHaveBeenCalled();
+		});
+
+		it('should replace the default Loki logger sinks', () => {
+			const memory = memoryTransport();
+			configureLogging({ lokiUrl: 'http://loki:3100', transports: [memory] });
+			lokiLog('WARN', 'custom', { route: '/x' });
+			expect(memory.records).toEqual([
+				expect.objectContaining({ source: 'loki', level: 'warn', labels: { route: '/x' } }),
+			]);
+			expect(_getBufferLength()).toBe(0);
+			expect(consoleSpy).not.toHaveBeenCalled();
+		});
+
+		it('should keep structuredLogger resolving when a transport fails', async () => {
+			configureLogging({
+				transports: [memoryTransport({ write: () => Promise.reject(new Error('down')) })],
+			});
+			await expect(structuredLogger.error('still fine')).resolves.toBeUndefined();
+		});
+
+		it('should receive audit records from the admin file logger', async () => {
+			const memory = memoryTransport();
+			const auditLog = vi.fn().mockResolvedValue(undefined);
+			configureLogging({ auditLog, transports: [memory] });
+			await logAdminFileActivity({ id: 'u1', email: 'a@b.com' }, '10.0.0.1', 'UA', {
+				action: 'user.delete',
+				resourceType: 'user',
+				resourceId: 'u2',
+			});
+			expect(auditLog).toHaveBeenCalled();
+			expect(memory.records[0]).toMatchObject({
+				source: 'audit',
+				message: 'user.delete',
+				audit: {
+					admin_user_id: 'u1',
+					admin_email: 'a@b.com',
+					resource_type: 'user',
+					resource_id: 'u2',
+					ip_address: '10.0.0.1',
+				},
+			});
+		});
+
+		it('should receive audit records from adminFileLogger.log', async () => {
+			const memory = memoryTransport();
+			configureLogging({ transports: [memory] });
+			await adminFileLogger.log({
+				adminId: 'a1',
+				actionType: 'post.publish',
+				actionDescription: 'Published post',
+				targetType: 'post',
+				targetId: 'p1',
+			});
+			expect(memory.records[0]).toMatchObject({
+				source: 'audit',
+				message: 'Published post',
+				audit: { action: 'post.publish', resource_id: 'p1' },
+			});
+		});
+
+		it('should receive audit records from the flat admin logger', async () => {
+			const tmpDir = await fs.mkdtemp(path.join('/tmp', 'transports-test-'));
+			try {
+				const memory = memoryTransport();
+				configureLogging({ logsDir: tmpDir, transports: [memory] });
+				await logAdminFlatActivity({ id: 'u1', email: 'a@b.com' }, '127.0.0.1', null, {
+					action: 'auth.login',
+				});
+				expect(memory.records[0]).toMatchObject({
+					source: 'audit',
+					audit: { action: 'auth.login', admin_email: 'a@b.com' },
+				});
+			} finally {
+				await fs.rm(tmpDir, { recursive: true, force: true });
+			}
+		});
+	});
+});